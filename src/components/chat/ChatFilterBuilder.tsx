@@ -0,0 +1,448 @@
+import { useEffect, useMemo, useState } from "react";
+import { useChats } from "@/context/chats";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { countMatchingChats, createEmptyFilter, isFilterGroup } from "@/lib/chat-filters";
+import { ChatFilter, ChatFilterCondition, SavedFilter } from "@/types/chat";
+import { ChevronDown, Plus, X } from "lucide-react";
+
+type ConditionField = ChatFilterCondition["field"];
+
+const FIELD_LABELS: Record<ConditionField, string> = {
+  type: "Chat type",
+  labels: "Labels",
+  unread: "Read state",
+  kind: "Group or direct",
+  participants: "Participants",
+  date: "Date",
+  assignee: "Assigned to",
+};
+
+const DEFAULT_CONDITIONS: Record<ConditionField, ChatFilterCondition> = {
+  type: { field: "type", typeIds: [] },
+  labels: { field: "labels", match: "any", labels: [] },
+  unread: { field: "unread", state: "unread" },
+  kind: { field: "kind", kind: "group" },
+  participants: { field: "participants", match: "any", userIds: [] },
+  date: { field: "date", date: "last_activity" },
+  assignee: { field: "assignee", assignee: "me" },
+};
+
+// Nested groups go one level deep, which covers "A and (B or C)"
+const MAX_DEPTH = 1;
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+interface FilterOptions {
+  types: Option[];
+  labels: Option[];
+  users: Option[];
+}
+
+function OptionsPicker({ options, selected, placeholder, onChange }: {
+  options: Option[];
+  selected: string[];
+  placeholder: string;
+  onChange: (selected: string[]) => void;
+}) {
+  const summary = options
+    .filter(option => selected.includes(option.value))
+    .map(option => option.label)
+    .join(", ");
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 min-w-[10rem] max-w-[16rem] justify-between text-xs font-normal">
+          <span className={`truncate ${summary ? "" : "text-gray-500"}`}>{summary || placeholder}</span>
+          <ChevronDown className="h-3 w-3 flex-shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-56 p-1">
+        {options.length === 0 ? (
+          <p className="px-2 py-1.5 text-xs text-gray-500">Nothing to choose from yet</p>
+        ) : (
+          <div className="max-h-60 overflow-y-auto">
+            {options.map(option => (
+              <label
+                key={option.value}
+                className="flex cursor-pointer items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-gray-100"
+              >
+                <Checkbox
+                  checked={selected.includes(option.value)}
+                  onCheckedChange={(checked) => onChange(
+                    checked ? [...selected, option.value] : selected.filter(value => value !== option.value)
+                  )}
+                />
+                <span className="truncate">{option.label}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function ChoiceSelect<T extends string>({ value, choices, onChange }: {
+  value: T;
+  choices: { value: T; label: string }[];
+  onChange: (value: T) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as T)}>
+      <SelectTrigger className="h-8 w-auto min-w-[7rem] text-xs">
+        <SelectValue placeholder="Choose…" />
+      </SelectTrigger>
+      <SelectContent>
+        {choices.map(choice => (
+          <SelectItem key={choice.value} value={choice.value} className="text-xs">
+            {choice.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ConditionEditor({ condition, options, onChange }: {
+  condition: ChatFilterCondition;
+  options: FilterOptions;
+  onChange: (condition: ChatFilterCondition) => void;
+}) {
+  switch (condition.field) {
+    case "type":
+      return (
+        <OptionsPicker
+          options={options.types}
+          selected={condition.typeIds}
+          placeholder="Any of…"
+          onChange={(typeIds) => onChange({ ...condition, typeIds })}
+        />
+      );
+    case "labels":
+      return (
+        <>
+          <ChoiceSelect
+            value={condition.match}
+            choices={[
+              { value: "any", label: "has any of" },
+              { value: "all", label: "has all of" },
+              { value: "none", label: "has none of" },
+            ]}
+            onChange={(match) => onChange({ ...condition, match })}
+          />
+          <OptionsPicker
+            options={options.labels}
+            selected={condition.labels}
+            placeholder="Labels…"
+            onChange={(labels) => onChange({ ...condition, labels })}
+          />
+        </>
+      );
+    case "unread":
+      return (
+        <ChoiceSelect
+          value={condition.state}
+          choices={[
+            { value: "unread", label: "Unread" },
+            { value: "read", label: "Read" },
+            { value: "mentions", label: "Unread mentions" },
+          ]}
+          onChange={(state) => onChange({ ...condition, state })}
+        />
+      );
+    case "kind":
+      return (
+        <ChoiceSelect
+          value={condition.kind}
+          choices={[
+            { value: "group", label: "Group chats" },
+            { value: "direct", label: "Direct chats" },
+          ]}
+          onChange={(kind) => onChange({ ...condition, kind })}
+        />
+      );
+    case "participants":
+      return (
+        <>
+          <ChoiceSelect
+            value={condition.match}
+            choices={[
+              { value: "any", label: "include any of" },
+              { value: "all", label: "include all of" },
+            ]}
+            onChange={(match) => onChange({ ...condition, match })}
+          />
+          <OptionsPicker
+            options={options.users}
+            selected={condition.userIds}
+            placeholder="People…"
+            onChange={(userIds) => onChange({ ...condition, userIds })}
+          />
+        </>
+      );
+    case "date":
+      return (
+        <>
+          <ChoiceSelect
+            value={condition.date}
+            choices={[
+              { value: "last_activity", label: "Last activity" },
+              { value: "created", label: "Created" },
+            ]}
+            onChange={(date) => onChange({ ...condition, date })}
+          />
+          <Input
+            type="date"
+            value={condition.after ?? ""}
+            onChange={(e) => onChange({ ...condition, after: e.target.value || undefined })}
+            className="h-8 w-36 text-xs"
+            aria-label="From"
+          />
+          <span className="text-xs text-gray-500">to</span>
+          <Input
+            type="date"
+            value={condition.before ?? ""}
+            onChange={(e) => onChange({ ...condition, before: e.target.value || undefined })}
+            className="h-8 w-36 text-xs"
+            aria-label="To"
+          />
+        </>
+      );
+    case "assignee":
+      return (
+        <>
+          <ChoiceSelect
+            value={condition.assignee}
+            choices={[
+              { value: "me", label: "Me" },
+              { value: "user", label: "Someone…" },
+              { value: "assigned", label: "Anyone" },
+              { value: "unassigned", label: "Nobody" },
+            ]}
+            onChange={(assignee) => onChange({ ...condition, assignee })}
+          />
+          {condition.assignee === "user" && (
+            <ChoiceSelect
+              value={condition.userId ?? ""}
+              choices={options.users}
+              onChange={(userId) => onChange({ ...condition, userId })}
+            />
+          )}
+        </>
+      );
+  }
+}
+
+function FilterGroupEditor({ group, options, depth, onChange, onRemove }: {
+  group: ChatFilter;
+  options: FilterOptions;
+  depth: number;
+  onChange: (group: ChatFilter) => void;
+  onRemove?: () => void;
+}) {
+  const updateRule = (index: number, rule: ChatFilterCondition | ChatFilter) =>
+    onChange({ ...group, rules: group.rules.map((current, i) => (i === index ? rule : current)) });
+
+  const removeRule = (index: number) =>
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+
+  return (
+    <div className={depth > 0 ? "rounded-md border border-dashed border-gray-300 p-2" : ""}>
+      <div className="mb-2 flex items-center gap-2 text-xs text-gray-600">
+        <span>Match</span>
+        <ChoiceSelect
+          value={group.match}
+          choices={[
+            { value: "all", label: "all (AND)" },
+            { value: "any", label: "any (OR)" },
+          ]}
+          onChange={(match) => onChange({ ...group, match })}
+        />
+        <span>of these conditions</span>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="ml-auto h-7 w-7" onClick={onRemove} title="Remove group">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {group.rules.map((rule, index) => isFilterGroup(rule) ? (
+          <FilterGroupEditor
+            key={index}
+            group={rule}
+            options={options}
+            depth={depth + 1}
+            onChange={(next) => updateRule(index, next)}
+            onRemove={() => removeRule(index)}
+          />
+        ) : (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <ChoiceSelect
+              value={rule.field}
+              choices={(Object.keys(FIELD_LABELS) as ConditionField[]).map(field => ({
+                value: field,
+                label: FIELD_LABELS[field],
+              }))}
+              onChange={(field) => updateRule(index, DEFAULT_CONDITIONS[field])}
+            />
+            <ConditionEditor condition={rule} options={options} onChange={(next) => updateRule(index, next)} />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-gray-500"
+              onClick={() => removeRule(index)}
+              title="Remove condition"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-2 flex gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs text-whatsapp-teal"
+          onClick={() => onChange({ ...group, rules: [...group.rules, DEFAULT_CONDITIONS.unread] })}
+        >
+          <Plus className="mr-1 h-3 w-3" /> Condition
+        </Button>
+        {depth < MAX_DEPTH && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-whatsapp-teal"
+            onClick={() => onChange({
+              ...group,
+              rules: [...group.rules, { match: group.match === "all" ? "any" : "all", rules: [DEFAULT_CONDITIONS.unread] }],
+            })}
+          >
+            <Plus className="mr-1 h-3 w-3" /> Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ChatFilterBuilderProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Where editing starts: the active filter, or a saved one being edited
+  filter: ChatFilter | null;
+  savedFilter?: SavedFilter | null;
+  // savedFilterId is set when the applied filter is stored as that saved filter
+  onApply: (filter: ChatFilter, savedFilterId: string | null) => void;
+}
+
+export function ChatFilterBuilder({ open, onOpenChange, filter, savedFilter, onApply }: ChatFilterBuilderProps) {
+  const { chats, users, labels, chatTypes, saveFilter, updateFilter } = useChats();
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<ChatFilter>(createEmptyFilter);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(savedFilter?.definition ?? filter ?? createEmptyFilter());
+    setName(savedFilter?.name ?? "");
+  }, [open, filter, savedFilter]);
+
+  const options = useMemo<FilterOptions>(() => ({
+    types: chatTypes.map(chatType => ({ value: chatType.id, label: chatType.name })),
+    // Catalog labels, plus any still left on chats from before the catalog
+    labels: [...new Set([...labels.map(label => label.name), ...chats.flatMap(chat => chat.labels ?? [])])]
+      .sort((a, b) => a.localeCompare(b))
+      .map(label => ({ value: label, label })),
+    users: users
+      .map(u => ({ value: u.id, label: u.id === user?.id ? `${u.display_name} (you)` : u.display_name }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+  }), [chats, users, labels, chatTypes, user?.id]);
+
+  const matchCount = countMatchingChats(chats, draft, user?.id);
+  const unchanged = !!savedFilter && JSON.stringify(savedFilter.definition) === JSON.stringify(draft);
+
+  const handleApply = () => {
+    onApply(draft, unchanged ? savedFilter!.id : null);
+    onOpenChange(false);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    setSaving(true);
+    const saved = savedFilter
+      ? await updateFilter(savedFilter.id, { name, definition: draft })
+      : await saveFilter(name, draft);
+    setSaving(false);
+    if (saved) {
+      onApply(saved.definition, saved.id);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{savedFilter ? `Edit "${savedFilter.name}"` : "Custom filter"}</DialogTitle>
+          <DialogDescription>
+            {matchCount === 1 ? "1 chat matches" : `${matchCount} chats match`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[50vh] overflow-y-auto">
+          <FilterGroupEditor group={draft} options={options} depth={0} onChange={setDraft} />
+        </div>
+
+        <DialogFooter className="flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name to save as"
+              maxLength={40}
+              className="h-8 w-44 text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={handleSave} disabled={!name.trim() || saving}>
+              {savedFilter ? "Save changes" : "Save"}
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setDraft(createEmptyFilter())}>
+              Clear
+            </Button>
+            <Button size="sm" className="bg-whatsapp-green hover:bg-whatsapp-dark" onClick={handleApply}>
+              Apply
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,20 @@
 
+import { useState } from "react";
 import { useChats } from "@/context/chats";
-import { Search, MoreVertical, Phone, RefreshCw, HelpCircle } from "lucide-react";
+import { Search, MoreVertical, Phone, RefreshCw, HelpCircle, TextSearch, Users } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { useAuth } from "@/context/AuthContext";
+import { formatLastSeen, formatTypingText, getChatDisplayName, getDirectChatPartner } from "@/lib/chat-utils";
+import { SearchPanel } from "./SearchPanel";
+import { FindBar } from "./FindBar";
+import { GroupInfoPanel } from "./GroupInfoPanel";
 
 export function ChatHeader() {
-  const { currentChat } = useChats();
+  const { currentChat, chats, typingByChat, users, onlineUserIds, openFind } = useChats();
+  const { user } = useAuth();
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [groupInfoOpen, setGroupInfoOpen] = useState(false);
 
   if (!currentChat) {
     return (
@@ -25,38 +34,99 @@ export function ChatHeader() {
       .substring(0, 2);
   };
 
+  const typingNames = (typingByChat[currentChat.id] ?? [])
+    .map(id => users.find(u => u.id === id)?.display_name || 'Someone');
+
+  // The list copy carries live summary fields such as member_ids
+  const chat = chats.find(candidate => candidate.id === currentChat.id) ?? currentChat;
+  const partner = getDirectChatPartner(chat, users, user?.id);
+  const isPartnerOnline = !!partner && onlineUserIds.has(partner.id);
+  const chatName = getChatDisplayName(chat, users, user?.id);
+
+  const getStatusText = () => {
+    if (chat.is_group) return "Group chat";
+    if (!partner) return "";
+    return isPartnerOnline ? "online" : formatLastSeen(partner.last_seen);
+  };
+
   return (
-    <div className="h-16 border-b border-chat-border flex items-center justify-between px-4 bg-white">
-      <div className="flex items-center space-x-3">
-        <Avatar className="h-10 w-10">
-          <AvatarImage src={`https://api.dicebear.com/7.x/initials/svg?seed=${currentChat.name}`} />
-          <AvatarFallback>{currentChat.name ? getInitials(currentChat.name) : "CH"}</AvatarFallback>
-        </Avatar>
-        <div>
-          <h3 className="font-medium">{currentChat.name}</h3>
-          <p className="text-xs text-gray-500">
-            {currentChat.is_group ? "Group chat" : "Online"}
-          </p>
+    <>
+      <div className="h-16 border-b border-chat-border flex items-center justify-between px-4 bg-white">
+        <div
+          className={`flex items-center space-x-3 ${chat.is_group ? "cursor-pointer" : ""}`}
+          onClick={() => chat.is_group && setGroupInfoOpen(true)}
+        >
+          <div className="relative">
+            <Avatar className="h-10 w-10">
+              <AvatarImage src={`https://api.dicebear.com/7.x/initials/svg?seed=${chatName}`} />
+              <AvatarFallback>{getInitials(chatName)}</AvatarFallback>
+            </Avatar>
+            {isPartnerOnline && (
+              <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-whatsapp-green border-2 border-white" />
+            )}
+          </div>
+          <div>
+            <h3 className="font-medium">{chatName}</h3>
+            {typingNames.length > 0 ? (
+              <p className="text-xs text-whatsapp-green">
+                {formatTypingText(typingNames, currentChat.is_group)}
+              </p>
+            ) : (
+              <p className="text-xs text-gray-500">
+                {getStatusText()}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {chat.is_group && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-gray-600"
+              onClick={() => setGroupInfoOpen(true)}
+              title="Group info"
+            >
+              <Users className="h-5 w-5" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-gray-600"
+            onClick={openFind}
+            title="Find in chat (Ctrl+F)"
+          >
+            <TextSearch className="h-5 w-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-gray-600"
+            onClick={() => setSearchOpen(true)}
+            title="Search messages"
+          >
+            <Search className="h-5 w-5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="text-gray-600">
+            <Phone className="h-5 w-5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="text-gray-600">
+            <RefreshCw className="h-5 w-5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="text-gray-600">
+            <HelpCircle className="h-5 w-5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="text-gray-600">
+            <MoreVertical className="h-5 w-5" />
+          </Button>
         </div>
-      </div>
 
-      <div className="flex items-center space-x-2">
-        <Button variant="ghost" size="icon" className="text-gray-600">
-          <Search className="h-5 w-5" />
-        </Button>
-        <Button variant="ghost" size="icon" className="text-gray-600">
-          <Phone className="h-5 w-5" />
-        </Button>
-        <Button variant="ghost" size="icon" className="text-gray-600">
-          <RefreshCw className="h-5 w-5" />
-        </Button>
-        <Button variant="ghost" size="icon" className="text-gray-600">
-          <HelpCircle className="h-5 w-5" />
-        </Button>
-        <Button variant="ghost" size="icon" className="text-gray-600">
-          <MoreVertical className="h-5 w-5" />
-        </Button>
+        <SearchPanel open={searchOpen} onOpenChange={setSearchOpen} />
+        <GroupInfoPanel open={groupInfoOpen} onOpenChange={setGroupInfoOpen} />
       </div>
-    </div>
+      <FindBar />
+    </>
   );
 }
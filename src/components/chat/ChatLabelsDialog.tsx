@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useChats } from "@/context/chats";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getChatDisplayName } from "@/lib/chat-utils";
+import { getLabelState } from "@/lib/labels";
+import { ChatLabel, LabelColor } from "@/types/chat";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { ColorPicker } from "./ColorPicker";
+
+type LabelState = "all" | "some" | "none";
+
+// Mounted while the dialog is open, so every opening starts from the chats' labels
+function ChatLabelsEditor({ chatIds, onDone }: { chatIds: string[]; onDone: () => void }) {
+  const { chats, labels, createLabel, updateLabel, deleteLabel, updateChatLabels } = useChats();
+  // Checkbox state per label id, and the state it started from
+  const [initial, setInitial] = useState<Record<string, LabelState>>(() => {
+    const chatLabels = chats.filter(chat => chatIds.includes(chat.id)).map(chat => chat.labels ?? []);
+    return Object.fromEntries(labels.map(label => [label.id, getLabelState(chatLabels, label.name)]));
+  });
+  const [draft, setDraft] = useState(initial);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<LabelColor>("gray");
+
+  const stateOf = (label: ChatLabel): LabelState => draft[label.id] ?? "none";
+
+  const toggle = (label: ChatLabel) => {
+    setDraft(prev => ({ ...prev, [label.id]: stateOf(label) === "all" ? "none" : "all" }));
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    const created = await createLabel(newName, newColor);
+    if (created) {
+      // A label made here is meant for these chats
+      setInitial(prev => ({ ...prev, [created.id]: "none" }));
+      setDraft(prev => ({ ...prev, [created.id]: "all" }));
+      setNewName("");
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const label = labels.find(candidate => candidate.id === editing.id);
+    if (label && editing.name.trim() && editing.name.trim() !== label.name) {
+      await updateLabel(label.id, { name: editing.name });
+    }
+    setEditing(null);
+  };
+
+  const handleApply = async () => {
+    const changed = labels.filter(label => stateOf(label) !== (initial[label.id] ?? "none"));
+    const add = changed.filter(label => stateOf(label) === "all").map(label => label.name);
+    const remove = changed.filter(label => stateOf(label) === "none").map(label => label.name);
+    onDone();
+    if (add.length > 0 || remove.length > 0) {
+      await updateChatLabels(chatIds, add, remove);
+    }
+  };
+
+  const renderLabel = (label: ChatLabel) => {
+    const state = stateOf(label);
+
+    return (
+      <li key={label.id} className="group flex items-center gap-2 rounded px-2 py-1.5 hover:bg-gray-50">
+        <Checkbox
+          checked={state === "all" ? true : state === "some" ? "indeterminate" : false}
+          onCheckedChange={() => toggle(label)}
+          aria-label={label.name}
+        />
+        <ColorPicker color={label.color} onChange={(color) => updateLabel(label.id, { color })} />
+        {editing?.id === label.id ? (
+          <form
+            className="flex-grow"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleRename();
+            }}
+          >
+            <Input
+              autoFocus
+              value={editing.name}
+              onChange={(e) => setEditing({ id: label.id, name: e.target.value })}
+              onBlur={handleRename}
+              onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+              maxLength={32}
+              className="h-7 text-sm"
+            />
+          </form>
+        ) : (
+          <button type="button" onClick={() => toggle(label)} className="flex-grow truncate text-left text-sm">
+            {label.name}
+          </button>
+        )}
+        {confirmingDelete === label.id ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs text-red-600"
+            onClick={() => deleteLabel(label.id)}
+            onBlur={() => setConfirmingDelete(null)}
+            autoFocus
+          >
+            Delete everywhere
+          </Button>
+        ) : (
+          <div className="flex opacity-0 group-hover:opacity-100">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-gray-500"
+              onClick={() => setEditing({ id: label.id, name: label.name })}
+              title="Rename"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-gray-500"
+              onClick={() => setConfirmingDelete(label.id)}
+              title="Delete label"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <>
+      {labels.length === 0 ? (
+        <p className="py-2 text-sm text-gray-500">No labels yet. Create the first one below.</p>
+      ) : (
+        <ul className="max-h-72 overflow-y-auto">{labels.map(renderLabel)}</ul>
+      )}
+
+      <form
+        className="flex items-center gap-2 border-t border-chat-border pt-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleCreate();
+        }}
+      >
+        <ColorPicker color={newColor} onChange={setNewColor} />
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New label"
+          maxLength={32}
+          className="h-8 text-sm"
+        />
+        <Button type="submit" variant="outline" size="sm" className="h-8" disabled={!newName.trim()}>
+          <Plus className="h-3.5 w-3.5" />
+        </Button>
+      </form>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onDone}>Cancel</Button>
+        <Button className="bg-whatsapp-green hover:bg-whatsapp-dark" onClick={handleApply}>Apply</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+interface ChatLabelsDialogProps {
+  // The chats being labelled; the dialog is open while there are any
+  chatIds: string[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Assigns catalog labels to one or many chats, and manages the catalog itself
+export function ChatLabelsDialog({ chatIds, onOpenChange }: ChatLabelsDialogProps) {
+  const { chats, users } = useChats();
+  const { user } = useAuth();
+  const chat = chats.find(candidate => candidate.id === chatIds[0]);
+
+  return (
+    <Dialog open={chatIds.length > 0} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Labels</DialogTitle>
+          <DialogDescription>
+            {chatIds.length === 1
+              ? (chat ? getChatDisplayName(chat, users, user?.id) : "1 chat")
+              : `${chatIds.length} chats selected`}
+          </DialogDescription>
+        </DialogHeader>
+        {chatIds.length > 0 && <ChatLabelsEditor chatIds={chatIds} onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
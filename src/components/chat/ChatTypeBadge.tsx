@@ -0,0 +1,18 @@
+import { Badge } from "@/components/ui/badge";
+import { getChatTypeIcon } from "@/lib/chat-types";
+import { LABEL_COLORS } from "@/lib/labels";
+import { ChatType } from "@/types/chat";
+
+export function ChatTypeBadge({ chatType }: { chatType: Pick<ChatType, "name" | "color" | "icon"> }) {
+  const Icon = getChatTypeIcon(chatType.icon);
+
+  return (
+    <Badge
+      variant="outline"
+      className={`gap-1 border-transparent text-[10px] py-0.5 px-2 font-medium ${LABEL_COLORS[chatType.color].chip}`}
+    >
+      <Icon className="h-3 w-3" />
+      {chatType.name}
+    </Badge>
+  );
+}
@@ -2,6 +2,7 @@
 import { ChatHeader } from "./ChatHeader";
 import { MessagesList } from "./MessagesList";
 import { MessageInput } from "./MessageInput";
+import { ThreadPanel } from "./ThreadPanel";
 import { useChats } from "@/context/chats";
 
 export function ChatView() {
@@ -12,6 +13,7 @@ export function ChatView() {
       <ChatHeader />
       <MessagesList />
       <MessageInput />
+      <ThreadPanel />
     </div>
   );
 }
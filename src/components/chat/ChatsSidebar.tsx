@@ -4,14 +4,76 @@ import { useChats } from "@/context/chats"; // Updated import path
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Filter, Search, UserRound, MessageSquare, MoreVertical, Plus, Clock, Check } from "lucide-react";
-import { Badge } from "@/components/ui/badge";
+import { Filter, Search, UserRound, MessageSquare, MoreVertical, Plus, Clock, Check, MailOpen, Mail, Pencil, Trash2, UserCheck, UserX, Tag, X, Shapes, Settings } from "lucide-react";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/context/AuthContext";
+import { formatTypingText, getChatActivityAt, getChatDisplayName, getDirectChatPartner, getMessagePreview } from "@/lib/chat-utils";
+import { countMatchingChats, isEmptyFilter, matchesChatFilter } from "@/lib/chat-filters";
+import { findChatType } from "@/lib/chat-types";
+import { getLabelColor, LABEL_COLORS } from "@/lib/labels";
+import { ChatFilter, SavedFilter } from "@/types/chat";
+import { ChatFilterBuilder } from "./ChatFilterBuilder";
+import { ChatLabelsDialog } from "./ChatLabelsDialog";
+import { ChatTypeBadge } from "./ChatTypeBadge";
+import { NewChatDialog } from "./NewChatDialog";
 
 export function ChatsSidebar() {
-  const { filteredChats, setCurrentChat, currentChat, filterChats } = useChats();
+  const { 
+    chats,
+    filteredChats, 
+    setCurrentChat, 
+    currentChat, 
+    filterChats, 
+    markChatRead, 
+    markChatUnread, 
+    typingByChat, 
+    onlineUserIds,
+    users,
+    assignChat,
+    savedFilters,
+    saveFilter,
+    deleteFilter,
+    labels,
+    chatTypes,
+    changeChatType
+  } = useChats();
+  const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState("");
   const { user } = useAuth();
+  // "all", "custom" (an applied filter that is not saved) or a saved filter's id
+  const [activeTab, setActiveTab] = useState("all");
+  const [customFilter, setCustomFilter] = useState<ChatFilter | null>(null);
+  // Open builder; savedFilter is set when editing one
+  const [builder, setBuilder] = useState<{ savedFilter: SavedFilter | null } | null>(null);
+  const [saveName, setSaveName] = useState("");
+  const [saveOpen, setSaveOpen] = useState(false);
+  // Chats picked with Ctrl/Cmd+click, and the chats the labels dialog is open for
+  const [selectedChatIds, setSelectedChatIds] = useState<string[]>([]);
+  const [labelChatIds, setLabelChatIds] = useState<string[]>([]);
+  const [newChatOpen, setNewChatOpen] = useState(false);
+
+  const activeSavedFilter = savedFilters.find(filter => filter.id === activeTab) ?? null;
+  const activeFilter = activeSavedFilter?.definition ?? (activeTab === "custom" ? customFilter : null);
+  const visibleChats = activeFilter
+    ? filteredChats.filter(chat => matchesChatFilter(chat, activeFilter, user?.id))
+    : filteredChats;
 
   useEffect(() => {
     filterChats(searchQuery);
@@ -41,9 +103,62 @@ export function ChatsSidebar() {
     }
   };
 
-  // Format last message preview
-  const getMessagePreview = (content: string) => {
-    return content.length > 30 ? `${content.substring(0, 30)}...` : content;
+  const applyFilter = (filter: ChatFilter, savedFilterId: string | null) => {
+    if (savedFilterId) {
+      setActiveTab(savedFilterId);
+    } else if (isEmptyFilter(filter)) {
+      setCustomFilter(null);
+      setActiveTab("all");
+    } else {
+      setCustomFilter(filter);
+      setActiveTab("custom");
+    }
+  };
+
+  const handleSaveCustomFilter = async () => {
+    if (!customFilter || !saveName.trim()) return;
+
+    const saved = await saveFilter(saveName, customFilter);
+    if (saved) {
+      setCustomFilter(null);
+      setActiveTab(saved.id);
+      setSaveName("");
+      setSaveOpen(false);
+    }
+  };
+
+  const handleChatClick = (e: React.MouseEvent, chatId: string) => {
+    if (e.ctrlKey || e.metaKey) {
+      setSelectedChatIds(prev => (prev.includes(chatId) ? prev.filter(id => id !== chatId) : [...prev, chatId]));
+      return;
+    }
+    setSelectedChatIds([]);
+    const chat = chats.find(candidate => candidate.id === chatId);
+    if (chat) setCurrentChat(chat);
+  };
+
+  // The context menu acts on the whole selection when opened on a selected chat
+  const openLabels = (chatId: string) => {
+    setLabelChatIds(selectedChatIds.includes(chatId) ? selectedChatIds : [chatId]);
+  };
+
+  const renderTab = (tab: string, label: string, filter: ChatFilter | null) => {
+    const isActive = tab === "all" ? !activeFilter : activeTab === tab;
+    const count = filter ? countMatchingChats(chats, filter, user?.id) : chats.length;
+
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className={`h-7 flex-shrink-0 gap-1 rounded-full px-3 text-xs ${
+          isActive ? "bg-whatsapp-teal/10 text-whatsapp-teal" : "text-gray-600"
+        }`}
+        onClick={() => setActiveTab(tab)}
+      >
+        {label}
+        <span className="text-[10px] text-gray-500">{count}</span>
+      </Button>
+    );
   };
 
   return (
@@ -63,18 +178,65 @@ export function ChatsSidebar() {
           <Button variant="ghost" size="icon" className="rounded-full">
             <MessageSquare className="h-5 w-5 text-gray-500" />
           </Button>
-          <Button variant="ghost" size="icon" className="rounded-full">
-            <MoreVertical className="h-5 w-5 text-gray-500" />
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="rounded-full">
+                <MoreVertical className="h-5 w-5 text-gray-500" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => navigate("/settings")}>
+                <Settings className="h-4 w-4 mr-2" /> Settings
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
       
       <div className="p-2 border-b border-chat-border">
         <div className="flex items-center gap-2 mb-2">
-          <Button variant="outline" size="sm" className="flex items-center gap-1 text-xs">
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="flex items-center gap-1 text-xs"
+            onClick={() => setBuilder({ savedFilter: null })}
+          >
             <Filter className="h-3 w-3" /> Custom filter
           </Button>
-          <Button variant="outline" size="sm" className="text-xs">Save</Button>
+          <Popover open={saveOpen} onOpenChange={setSaveOpen}>
+            <PopoverTrigger asChild>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                className="text-xs"
+                disabled={activeTab !== "custom" || !customFilter}
+                title="Save the applied filter as a tab"
+              >
+                Save
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-64 p-2">
+              <form 
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleSaveCustomFilter();
+                }}
+              >
+                <Input
+                  autoFocus
+                  value={saveName}
+                  onChange={(e) => setSaveName(e.target.value)}
+                  placeholder="Filter name"
+                  maxLength={40}
+                  className="h-8 text-sm"
+                />
+                <Button type="submit" size="sm" className="h-8" disabled={!saveName.trim()}>
+                  Save
+                </Button>
+              </form>
+            </PopoverContent>
+          </Popover>
           
           <div className="flex-grow flex items-center gap-2">
             <div className="relative flex-grow">
@@ -89,71 +251,241 @@ export function ChatsSidebar() {
           </div>
         </div>
         
-        <div className="flex items-center">
-          <Button variant="ghost" size="sm" className="text-whatsapp-teal text-xs">
-            Filtered
-          </Button>
+        <div className="flex items-center gap-1 overflow-x-auto">
+          {renderTab("all", "All", null)}
+          {customFilter && renderTab("custom", "Filtered", customFilter)}
+          {savedFilters.map(filter => (
+            <ContextMenu key={filter.id}>
+              <ContextMenuTrigger asChild>
+                <div>{renderTab(filter.id, filter.name, filter.definition)}</div>
+              </ContextMenuTrigger>
+              <ContextMenuContent>
+                <ContextMenuItem onSelect={() => setBuilder({ savedFilter: filter })}>
+                  <Pencil className="h-4 w-4 mr-2" /> Edit filter
+                </ContextMenuItem>
+                <ContextMenuItem onSelect={() => deleteFilter(filter.id)} className="text-red-600">
+                  <Trash2 className="h-4 w-4 mr-2" /> Delete filter
+                </ContextMenuItem>
+              </ContextMenuContent>
+            </ContextMenu>
+          ))}
         </div>
       </div>
       
+      {selectedChatIds.length > 0 && (
+        <div className="flex items-center justify-between gap-2 border-b border-chat-border bg-whatsapp-teal/5 px-3 py-1.5">
+          <span className="text-xs text-gray-600">{selectedChatIds.length} selected</span>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 px-2 text-xs"
+              onClick={() => setLabelChatIds(selectedChatIds)}
+            >
+              <Tag className="h-3.5 w-3.5" /> Labels
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-gray-500"
+              onClick={() => setSelectedChatIds([])}
+              title="Clear selection"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+      )}
+      
       <div className="flex-grow overflow-y-auto">
-        {filteredChats.map((chat) => {
+        {activeFilter && visibleChats.length === 0 && (
+          <p className="p-4 text-center text-sm text-gray-500">No chats match this filter</p>
+        )}
+        {visibleChats.map((chat) => {
           const isActive = currentChat?.id === chat.id;
+          const unreadCount = chat.unread_count ?? 0;
+          const mentionCount = chat.unread_mention_count ?? 0;
+          const isUnread = unreadCount > 0 || !!chat.marked_unread;
+          const typingNames = (typingByChat[chat.id] ?? [])
+            .map(id => users.find(u => u.id === id)?.display_name?.split(' ')[0] || 'Someone');
+          const partner = getDirectChatPartner(chat, users, user?.id);
+          const isPartnerOnline = !!partner && onlineUserIds.has(partner.id);
+          const chatName = getChatDisplayName(chat, users, user?.id);
+          const isSelected = selectedChatIds.includes(chat.id);
+          const chatType = findChatType(chatTypes, chat.type_id);
           
           return (
-            <div
-              key={chat.id}
-              className={`flex items-center p-3 cursor-pointer hover:bg-gray-50 ${
-                isActive ? "bg-gray-100" : ""
-              }`}
-              onClick={() => setCurrentChat(chat)}
-            >
-              <Avatar className="h-11 w-11 mr-3">
-                <AvatarImage src={`https://api.dicebear.com/7.x/initials/svg?seed=${chat.name}`} />
-                <AvatarFallback>{chat.name ? getInitials(chat.name) : "CH"}</AvatarFallback>
-              </Avatar>
-              
-              <div className="flex-grow overflow-hidden">
-                <div className="flex justify-between items-center">
-                  <h3 className="font-medium text-sm truncate">{chat.name}</h3>
-                  <span className="text-xs text-gray-500">
-                    {formatTime(chat.updated_at)}
-                  </span>
-                </div>
-                
-                <div className="flex items-center">
-                  {chat.last_message ? (
-                    <p className="text-xs text-gray-500 truncate">{getMessagePreview(chat.last_message.content)}</p>
-                  ) : (
-                    <p className="text-xs text-gray-500 italic">No messages yet</p>
+            <ContextMenu key={chat.id}>
+              <ContextMenuTrigger asChild>
+                <div
+                  className={`flex items-center p-3 cursor-pointer hover:bg-gray-50 ${
+                    isSelected ? "bg-whatsapp-teal/10" : isActive ? "bg-gray-100" : ""
+                  }`}
+                  onClick={(e) => handleChatClick(e, chat.id)}
+                >
+                  <div className="relative mr-3">
+                    <Avatar className="h-11 w-11">
+                      <AvatarImage src={`https://api.dicebear.com/7.x/initials/svg?seed=${chatName}`} />
+                      <AvatarFallback>{getInitials(chatName)}</AvatarFallback>
+                    </Avatar>
+                    {isPartnerOnline && (
+                      <span 
+                        className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-whatsapp-green border-2 border-white"
+                        aria-label="Online"
+                      />
+                    )}
+                  </div>
+                  
+                  <div className="flex-grow overflow-hidden">
+                    <div className="flex justify-between items-center">
+                      <h3 className={`text-sm truncate ${isUnread ? "font-semibold" : "font-medium"}`}>{chatName}</h3>
+                      <span className={`text-xs ${isUnread ? "text-whatsapp-green font-medium" : "text-gray-500"}`}>
+                        {formatTime(getChatActivityAt(chat))}
+                      </span>
+                    </div>
+                    
+                    <div className="flex items-center justify-between gap-2">
+                      {typingNames.length > 0 ? (
+                        <p className="text-xs text-whatsapp-green truncate">
+                          {formatTypingText(typingNames, chat.is_group)}
+                        </p>
+                      ) : chat.last_message?.deleted_at ? (
+                        <p className="text-xs text-gray-500 italic truncate">This message was deleted</p>
+                      ) : chat.last_message ? (
+                        <p className="text-xs text-gray-500 truncate">{getMessagePreview(chat.last_message.content)}</p>
+                      ) : (
+                        <p className="text-xs text-gray-500 italic">No messages yet</p>
+                      )}
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {mentionCount > 0 && (
+                          <span 
+                            className="flex-shrink-0 h-5 w-5 rounded-full bg-whatsapp-green text-white text-[11px] font-semibold flex items-center justify-center"
+                            aria-label={mentionCount === 1 ? "1 unread mention" : `${mentionCount} unread mentions`}
+                          >
+                            @
+                          </span>
+                        )}
+                        {isUnread && (
+                          <span 
+                            className="flex-shrink-0 min-w-[20px] h-5 px-1.5 rounded-full bg-whatsapp-green text-white text-[11px] font-medium flex items-center justify-center"
+                            aria-label={unreadCount > 0 ? `${unreadCount} unread messages` : "Marked as unread"}
+                          >
+                            {unreadCount > 0 ? (unreadCount > 99 ? "99+" : unreadCount) : ""}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    
+                    {(chat.labels ?? []).length > 0 && (
+                      <div className="mt-1 flex gap-1 overflow-hidden">
+                        {chat.labels!.map(name => (
+                          <span
+                            key={name}
+                            className={`flex-shrink-0 rounded-full px-1.5 py-px text-[10px] font-medium ${
+                              LABEL_COLORS[getLabelColor(labels, name)].chip
+                            }`}
+                          >
+                            {name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  
+                  {chatType && (
+                    <div className="ml-2">
+                      <ChatTypeBadge chatType={chatType} />
+                    </div>
                   )}
                 </div>
-              </div>
-              
-              {chat.type && (
-                <div className="ml-2">
-                  <Badge 
-                    variant="outline" 
-                    className={`text-[10px] py-0.5 px-2 ${
-                      chat.type === 'demo' ? 'border-orange-300 text-orange-700' :
-                      chat.type === 'internal' ? 'border-green-300 text-green-700' :
-                      chat.type === 'signup' ? 'border-blue-300 text-blue-700' :
-                      'border-purple-300 text-purple-700'
-                    }`}
-                  >
-                    {chat.type}
-                  </Badge>
-                </div>
-              )}
-            </div>
+              </ContextMenuTrigger>
+              <ContextMenuContent>
+                {isUnread ? (
+                  <ContextMenuItem onSelect={() => markChatRead(chat.id)}>
+                    <MailOpen className="h-4 w-4 mr-2" /> Mark as read
+                  </ContextMenuItem>
+                ) : (
+                  <ContextMenuItem onSelect={() => markChatUnread(chat.id)}>
+                    <Mail className="h-4 w-4 mr-2" /> Mark as unread
+                  </ContextMenuItem>
+                )}
+                <ContextMenuSeparator />
+                <ContextMenuItem onSelect={() => openLabels(chat.id)}>
+                  <Tag className="h-4 w-4 mr-2" />
+                  {isSelected && selectedChatIds.length > 1 ? `Labels (${selectedChatIds.length} chats)…` : "Labels…"}
+                </ContextMenuItem>
+                <ContextMenuSub>
+                  <ContextMenuSubTrigger>
+                    <Shapes className="h-4 w-4 mr-2" /> Chat type
+                  </ContextMenuSubTrigger>
+                  <ContextMenuSubContent>
+                    {chatTypes.map(option => (
+                      <ContextMenuItem key={option.id} onSelect={() => changeChatType(chat.id, option.id)}>
+                        {chat.type_id === option.id && <Check className="h-4 w-4 mr-2" />}
+                        {option.name}
+                      </ContextMenuItem>
+                    ))}
+                    {chatTypes.length > 0 && <ContextMenuSeparator />}
+                    {chat.type_id && (
+                      <ContextMenuItem onSelect={() => changeChatType(chat.id, null)}>
+                        <X className="h-4 w-4 mr-2" /> No type
+                      </ContextMenuItem>
+                    )}
+                    <ContextMenuItem onSelect={() => navigate("/settings")}>
+                      <Settings className="h-4 w-4 mr-2" /> Manage types…
+                    </ContextMenuItem>
+                  </ContextMenuSubContent>
+                </ContextMenuSub>
+                <ContextMenuSub>
+                  <ContextMenuSubTrigger>
+                    <UserCheck className="h-4 w-4 mr-2" /> Assign to
+                  </ContextMenuSubTrigger>
+                  <ContextMenuSubContent>
+                    {(chat.member_ids ?? []).map(memberId => (
+                      <ContextMenuItem key={memberId} onSelect={() => assignChat(chat.id, memberId)}>
+                        {chat.assigned_to === memberId && <Check className="h-4 w-4 mr-2" />}
+                        {memberId === user?.id 
+                          ? "Me" 
+                          : users.find(u => u.id === memberId)?.display_name || "Unknown User"}
+                      </ContextMenuItem>
+                    ))}
+                    {chat.assigned_to && (
+                      <>
+                        <ContextMenuSeparator />
+                        <ContextMenuItem onSelect={() => assignChat(chat.id, null)}>
+                          <UserX className="h-4 w-4 mr-2" /> Unassign
+                        </ContextMenuItem>
+                      </>
+                    )}
+                  </ContextMenuSubContent>
+                </ContextMenuSub>
+              </ContextMenuContent>
+            </ContextMenu>
           );
         })}
       </div>
       
+      <ChatFilterBuilder
+        open={!!builder}
+        onOpenChange={(open) => !open && setBuilder(null)}
+        filter={activeFilter}
+        savedFilter={builder?.savedFilter}
+        onApply={applyFilter}
+      />
+
+      <ChatLabelsDialog
+        chatIds={labelChatIds}
+        onOpenChange={(open) => !open && setLabelChatIds([])}
+      />
+
+      <NewChatDialog open={newChatOpen} onOpenChange={setNewChatOpen} />
+
       <div className="p-4 absolute bottom-4 right-4">
         <Button 
           size="icon" 
           className="h-14 w-14 rounded-full bg-whatsapp-green hover:bg-whatsapp-dark shadow-lg"
+          onClick={() => setNewChatOpen(true)}
+          title="New chat"
         >
           <Plus className="h-6 w-6" />
         </Button>
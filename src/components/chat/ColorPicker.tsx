@@ -0,0 +1,32 @@
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { LABEL_COLOR_KEYS, LABEL_COLORS } from "@/lib/labels";
+import { LabelColor } from "@/types/chat";
+import { Check } from "lucide-react";
+
+// A palette dot that opens the palette; shared by labels and chat types
+export function ColorPicker({ color, onChange }: { color: LabelColor; onChange: (color: LabelColor) => void }) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`h-4 w-4 flex-shrink-0 rounded-full ${LABEL_COLORS[color].dot}`}
+          title="Change color"
+        />
+      </PopoverTrigger>
+      <PopoverContent align="start" className="grid w-auto grid-cols-5 gap-1 p-2">
+        {LABEL_COLOR_KEYS.map(key => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => onChange(key)}
+            className={`flex h-6 w-6 items-center justify-center rounded-full ${LABEL_COLORS[key].dot}`}
+            title={key}
+          >
+            {key === color && <Check className="h-3.5 w-3.5 text-white" />}
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
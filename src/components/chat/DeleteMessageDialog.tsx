@@ -0,0 +1,47 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Message } from "@/types/chat";
+
+interface DeleteMessageDialogProps {
+  message: Message | null;
+  // Only the sender can, and only within the delete window
+  canDeleteForEveryone: boolean;
+  onDelete: (scope: "everyone" | "me") => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function DeleteMessageDialog({ message, canDeleteForEveryone, onDelete, onOpenChange }: DeleteMessageDialogProps) {
+  return (
+    <AlertDialog open={!!message} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-w-sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete message?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {canDeleteForEveryone
+              ? "Delete it for everyone in this chat, or only remove it from your view."
+              : "It will only be removed from your view."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter className="gap-2">
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={() => onDelete("me")}>
+            Delete for me
+          </Button>
+          {canDeleteForEveryone && (
+            <Button variant="destructive" onClick={() => onDelete("everyone")}>
+              Delete for everyone
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  EMOJI_CATEGORIES,
+  EMOJIS,
+  EmojiCategoryKey,
+  EmojiEntry,
+  SKIN_TONES,
+  loadRecentEmojis,
+  loadSkinTone,
+  saveRecentEmoji,
+  saveSkinTone,
+  searchEmojis,
+  withSkinTone,
+} from "@/lib/emoji";
+import { Clock, Smile } from "lucide-react";
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+}
+
+const RECENT_SECTION = "recent";
+
+// Composer emoji picker: recently used, categories, search and a skin tone choice per user
+export function EmojiPicker({ onSelect }: EmojiPickerProps) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [recent, setRecent] = useState<string[]>([]);
+  const [skinTone, setSkinTone] = useState(0);
+  const [showTones, setShowTones] = useState(false);
+  const sectionRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    setSkinTone(userId ? loadSkinTone(userId) : 0);
+  }, [userId]);
+
+  // Shortcode completions in the composer also count as recently used
+  useEffect(() => {
+    if (open) {
+      setRecent(userId ? loadRecentEmojis(userId) : []);
+    } else {
+      setQuery("");
+      setShowTones(false);
+    }
+  }, [open, userId]);
+
+  const results = useMemo(() => searchEmojis(query), [query]);
+
+  const byCategory = useMemo(() => {
+    const groups = {} as Record<EmojiCategoryKey, EmojiEntry[]>;
+    EMOJIS.forEach(entry => {
+      (groups[entry.category] ??= []).push(entry);
+    });
+    return groups;
+  }, []);
+
+  const pick = (emoji: string) => {
+    onSelect(emoji);
+    if (userId) setRecent(saveRecentEmoji(userId, emoji));
+  };
+
+  const chooseTone = (tone: number) => {
+    setSkinTone(tone);
+    setShowTones(false);
+    if (userId) saveSkinTone(userId, tone);
+  };
+
+  const scrollTo = (section: string) => {
+    setQuery("");
+    // Sections only exist once the search results are gone
+    requestAnimationFrame(() => sectionRefs.current[section]?.scrollIntoView({ block: "start" }));
+  };
+
+  const renderEmoji = (emoji: string, label: string) => (
+    <button
+      key={emoji}
+      type="button"
+      onClick={() => pick(emoji)}
+      className="h-8 w-8 rounded text-xl leading-none hover:bg-gray-100"
+      title={label}
+      aria-label={label}
+    >
+      {emoji}
+    </button>
+  );
+
+  const renderSection = (key: string, label: string, emojis: { emoji: string; label: string }[]) => (
+    <div key={key} ref={(el) => (sectionRefs.current[key] = el)}>
+      <p className="sticky top-0 bg-white px-1 py-1 text-xs font-medium text-gray-500">{label}</p>
+      <div className="grid grid-cols-8">
+        {emojis.map(item => renderEmoji(item.emoji, item.label))}
+      </div>
+    </div>
+  );
+
+  const currentSwatch = SKIN_TONES.find(option => option.tone === skinTone)?.swatch ?? SKIN_TONES[0].swatch;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="icon" className="text-gray-600" aria-label="Emoji">
+          <Smile className="h-6 w-6" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-[300px] p-0">
+        <div className="flex items-center gap-1 border-b p-2">
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search emoji"
+            className="h-8 text-sm"
+          />
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setShowTones(!showTones)}
+              className="h-8 w-8 rounded text-lg leading-none hover:bg-gray-100"
+              aria-label="Skin tone"
+              aria-expanded={showTones}
+            >
+              {currentSwatch}
+            </button>
+            {showTones && (
+              <div className="absolute right-0 top-full z-10 mt-1 flex flex-col rounded-md border bg-white p-1 shadow-md">
+                {SKIN_TONES.map(option => (
+                  <button
+                    key={option.tone}
+                    type="button"
+                    onClick={() => chooseTone(option.tone)}
+                    className={`h-8 w-8 rounded text-lg leading-none hover:bg-gray-100 ${
+                      option.tone === skinTone ? "bg-gray-100" : ""
+                    }`}
+                    title={option.label}
+                    aria-label={`${option.label} skin tone`}
+                  >
+                    {option.swatch}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {!query && (
+          <div className="flex justify-between border-b px-1 py-1">
+            <button
+              type="button"
+              onClick={() => scrollTo(RECENT_SECTION)}
+              className="flex h-7 w-7 items-center justify-center rounded text-gray-500 hover:bg-gray-100"
+              title="Recently used"
+            >
+              <Clock className="h-4 w-4" />
+            </button>
+            {EMOJI_CATEGORIES.map(category => (
+              <button
+                key={category.key}
+                type="button"
+                onClick={() => scrollTo(category.key)}
+                className="h-7 w-7 rounded text-base leading-none hover:bg-gray-100"
+                title={category.label}
+              >
+                {category.icon}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="h-64 overflow-y-auto px-1 pb-1">
+          {query ? (
+            results.length === 0 ? (
+              <p className="p-4 text-center text-sm text-gray-500">No emoji found</p>
+            ) : (
+              <div className="grid grid-cols-8 pt-1">
+                {results.map(entry => renderEmoji(withSkinTone(entry, skinTone), entry.label))}
+              </div>
+            )
+          ) : (
+            <>
+              {recent.length > 0 && renderSection(
+                RECENT_SECTION,
+                "Recently used",
+                recent.map(emoji => ({ emoji, label: emoji }))
+              )}
+              {EMOJI_CATEGORIES.map(category => renderSection(
+                category.key,
+                category.label,
+                (byCategory[category.key] ?? []).map(entry => ({ emoji: withSkinTone(entry, skinTone), label: entry.label }))
+              ))}
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useRef } from "react";
+import { useChats } from "@/context/chats";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronUp, Loader2, X } from "lucide-react";
+
+// Find in the open chat, shown under the header while open; Ctrl+F (Cmd+F)
+// opens it instead of the browser's find, which only sees loaded messages
+export function FindBar() {
+  const {
+    currentChat,
+    findOpen,
+    findQuery,
+    setFindQuery,
+    findMatchIds,
+    findMatchCount,
+    findIndex,
+    findLoading,
+    closeFind,
+    findPrevious,
+    openFind,
+    findNext,
+  } = useChats();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const hasChat = !!currentChat;
+
+  useEffect(() => {
+    if (!hasChat) return;
+
+    const handleShortcut = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === "f") {
+        e.preventDefault();
+        openFind();
+        // Already open: pressing it again selects the query
+        inputRef.current?.select();
+      }
+    };
+
+    window.addEventListener("keydown", handleShortcut);
+    return () => window.removeEventListener("keydown", handleShortcut);
+  }, [hasChat, openFind]);
+
+  if (!currentChat || !findOpen) return null;
+
+  const hasMatches = findMatchIds.length > 0;
+  // Matches older than the listed ones still count towards the position
+  const position = findMatchCount - findMatchIds.length + findIndex + 1;
+
+  const getCountText = () => {
+    if (!findQuery.trim()) return "";
+    if (findLoading && !hasMatches) return "";
+    return hasMatches ? `${position} of ${findMatchCount}` : "No results";
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      // Enter walks up to older matches, Shift+Enter back down
+      if (e.shiftKey) {
+        findNext();
+      } else {
+        findPrevious();
+      }
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      closeFind();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 border-b border-chat-border bg-white px-4 py-2">
+      <Input
+        ref={inputRef}
+        autoFocus
+        value={findQuery}
+        onChange={(e) => setFindQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in chat"
+        className="h-8 flex-grow text-sm"
+        aria-label="Find in chat"
+      />
+      <span className="min-w-[4.5rem] text-right text-xs text-gray-500" aria-live="polite">
+        {findLoading && <Loader2 className="mr-1 inline h-3 w-3 animate-spin" />}
+        {getCountText()}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-gray-600"
+        onClick={findPrevious}
+        disabled={!hasMatches}
+        title="Older match (Enter)"
+      >
+        <ChevronUp className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-gray-600"
+        onClick={findNext}
+        disabled={!hasMatches}
+        title="Newer match (Shift+Enter)"
+      >
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-gray-600"
+        onClick={closeFind}
+        title="Close (Esc)"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useChats } from "@/context/chats";
+import { useAuth } from "@/context/AuthContext";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { getUserInitials } from "@/lib/chat-utils";
+import { ChatMember } from "@/types/chat";
+import { Check, LogOut, MoreVertical, Pencil, ShieldCheck, ShieldOff, UserMinus, UserPlus } from "lucide-react";
+
+// Picks users who are not in the group yet
+function AddMembersPopover({ memberIds, onAdd }: { memberIds: string[]; onAdd: (userIds: string[]) => Promise<boolean> }) {
+  const { directory } = useChats();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const needle = query.trim().toLowerCase();
+  const candidates = directory
+    .filter(candidate => !memberIds.includes(candidate.id))
+    .filter(candidate => !needle || candidate.display_name.toLowerCase().includes(needle))
+    .sort((a, b) => a.display_name.localeCompare(b.display_name));
+
+  const handleAdd = async () => {
+    if (await onAdd(selected)) {
+      setSelected([]);
+      setQuery("");
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full gap-2">
+          <UserPlus className="h-4 w-4" /> Add members
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 space-y-2 p-2">
+        <Input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search people"
+          className="h-8 text-sm"
+        />
+        {candidates.length === 0 ? (
+          <p className="px-1 py-2 text-sm text-gray-500">Everyone is already in this group</p>
+        ) : (
+          <ul className="max-h-56 overflow-y-auto">
+            {candidates.map(candidate => (
+              <li key={candidate.id}>
+                <label className="flex cursor-pointer items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-gray-50">
+                  <Checkbox
+                    checked={selected.includes(candidate.id)}
+                    onCheckedChange={(checked) => setSelected(prev => (
+                      checked ? [...prev, candidate.id] : prev.filter(id => id !== candidate.id)
+                    ))}
+                  />
+                  <span className="truncate">{candidate.display_name}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+        <Button
+          size="sm"
+          className="w-full bg-whatsapp-green hover:bg-whatsapp-dark"
+          disabled={selected.length === 0}
+          onClick={handleAdd}
+        >
+          Add {selected.length > 0 ? selected.length : ""}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface GroupInfoPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Members and settings of the open group. Admin controls are only offered to
+// admins; the server enforces the same rules either way.
+export function GroupInfoPanel({ open, onOpenChange }: GroupInfoPanelProps) {
+  const {
+    currentChat,
+    chats,
+    users,
+    onlineUserIds,
+    groupMembers,
+    addGroupMembers,
+    removeGroupMember,
+    setGroupMemberRole,
+    renameGroup,
+    leaveGroup,
+  } = useChats();
+  const { user } = useAuth();
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [confirmingLeave, setConfirmingLeave] = useState(false);
+
+  const chat = chats.find(candidate => candidate.id === currentChat?.id) ?? currentChat;
+  if (!chat?.is_group) return null;
+
+  const isAdmin = groupMembers.some(member => member.user_id === user?.id && member.role === "admin");
+  const adminCount = groupMembers.filter(member => member.role === "admin").length;
+  // Admins first, then by name
+  const sortedMembers = [...groupMembers].sort((a, b) =>
+    Number(b.role === "admin") - Number(a.role === "admin") ||
+    (users.find(u => u.id === a.user_id)?.display_name ?? "").localeCompare(users.find(u => u.id === b.user_id)?.display_name ?? "")
+  );
+
+  const handleRename = async () => {
+    if (editingName === null) return;
+    if (!editingName.trim() || editingName.trim() === chat.name || await renameGroup(editingName)) {
+      setEditingName(null);
+    }
+  };
+
+  const handleLeave = async () => {
+    await leaveGroup(chat.id);
+    setConfirmingLeave(false);
+    onOpenChange(false);
+  };
+
+  const renderMember = (member: ChatMember) => {
+    const memberUser = users.find(u => u.id === member.user_id);
+    const name = memberUser?.display_name || "Unknown User";
+    const isSelf = member.user_id === user?.id;
+    const isMemberAdmin = member.role === "admin";
+
+    return (
+      <li key={member.user_id} className="flex items-center gap-3 px-4 py-2">
+        <Avatar className="h-9 w-9">
+          <AvatarImage src={memberUser?.avatar_url || `https://api.dicebear.com/7.x/initials/svg?seed=${name}`} />
+          <AvatarFallback>{getUserInitials(name)}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-grow">
+          <p className="truncate text-sm font-medium">{isSelf ? "You" : name}</p>
+          <p className="truncate text-xs text-gray-500">
+            {onlineUserIds.has(member.user_id) ? "online" : memberUser?.email}
+          </p>
+        </div>
+        {isMemberAdmin && (
+          <Badge variant="outline" className="border-whatsapp-teal/40 text-[10px] text-whatsapp-teal">
+            Admin
+          </Badge>
+        )}
+        {isAdmin && !isSelf && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500" aria-label={`Manage ${name}`}>
+                <MoreVertical className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {isMemberAdmin ? (
+                <DropdownMenuItem onSelect={() => setGroupMemberRole(member.user_id, "member")}>
+                  <ShieldOff className="h-4 w-4 mr-2" /> Dismiss as admin
+                </DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem onSelect={() => setGroupMemberRole(member.user_id, "admin")}>
+                  <ShieldCheck className="h-4 w-4 mr-2" /> Make group admin
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onSelect={() => removeGroupMember(member.user_id)} className="text-red-600">
+                <UserMinus className="h-4 w-4 mr-2" /> Remove from group
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) {
+          setEditingName(null);
+          setConfirmingLeave(false);
+        }
+        onOpenChange(next);
+      }}
+    >
+      <SheetContent side="right" className="flex flex-col gap-0 p-0 w-full sm:max-w-md">
+        <SheetHeader className="px-4 py-3 border-b border-chat-border text-left">
+          {editingName !== null ? (
+            <form
+              className="flex items-center gap-2 pr-6"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleRename();
+              }}
+            >
+              <Input
+                autoFocus
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && setEditingName(null)}
+                maxLength={100}
+                className="h-8 text-sm"
+                aria-label="Group name"
+              />
+              <Button type="submit" size="icon" variant="ghost" className="h-8 w-8" title="Save name">
+                <Check className="h-4 w-4" />
+              </Button>
+            </form>
+          ) : (
+            <div className="flex items-center gap-1 pr-6">
+              <SheetTitle className="truncate text-base">{chat.name || "Group"}</SheetTitle>
+              {isAdmin && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-gray-500"
+                  onClick={() => setEditingName(chat.name ?? "")}
+                  title="Rename group"
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+          )}
+          <SheetDescription>
+            Group · {groupMembers.length === 1 ? "1 member" : `${groupMembers.length} members`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isAdmin && (
+          <div className="px-4 py-3 border-b border-chat-border">
+            <AddMembersPopover memberIds={groupMembers.map(member => member.user_id)} onAdd={addGroupMembers} />
+          </div>
+        )}
+
+        <ul className="flex-grow overflow-y-auto py-1">
+          {sortedMembers.map(renderMember)}
+        </ul>
+
+        <div className="px-4 py-3 border-t border-chat-border">
+          {confirmingLeave ? (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600">
+                {isAdmin && adminCount === 1 && groupMembers.length > 1
+                  ? "You are the only admin. The longest-standing member will become admin."
+                  : "You will stop receiving messages from this group."}
+              </p>
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setConfirmingLeave(false)}>Cancel</Button>
+                <Button variant="destructive" size="sm" onClick={handleLeave}>Leave group</Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              variant="ghost"
+              className="w-full justify-start gap-2 text-red-600 hover:text-red-700"
+              onClick={() => setConfirmingLeave(true)}
+            >
+              <LogOut className="h-4 w-4" /> Leave group
+            </Button>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,64 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, History, Info, MessageSquare, Pencil, Reply, Trash2 } from "lucide-react";
+
+interface MessageActionsMenuProps {
+  align: "start" | "end";
+  onReply?: () => void;
+  onReplyInThread?: () => void;
+  onEdit?: () => void;
+  onShowHistory?: () => void;
+  onShowInfo?: () => void;
+  onDelete: () => void;
+}
+
+// Hover menu in the corner of a message bubble; actions that do not apply are omitted
+export function MessageActionsMenu({ align, onReply, onReplyInThread, onEdit, onShowHistory, onShowInfo, onDelete }: MessageActionsMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className="absolute top-1 right-1 rounded-full p-0.5 text-gray-500 bg-inherit opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+          aria-label="Message actions"
+        >
+          <ChevronDown className="h-4 w-4" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align={align}>
+        {onReply && (
+          <DropdownMenuItem onSelect={onReply}>
+            <Reply className="h-4 w-4 mr-2" /> Reply
+          </DropdownMenuItem>
+        )}
+        {onReplyInThread && (
+          <DropdownMenuItem onSelect={onReplyInThread}>
+            <MessageSquare className="h-4 w-4 mr-2" /> Reply in thread
+          </DropdownMenuItem>
+        )}
+        {onEdit && (
+          <DropdownMenuItem onSelect={onEdit}>
+            <Pencil className="h-4 w-4 mr-2" /> Edit
+          </DropdownMenuItem>
+        )}
+        {onShowHistory && (
+          <DropdownMenuItem onSelect={onShowHistory}>
+            <History className="h-4 w-4 mr-2" /> Edit history
+          </DropdownMenuItem>
+        )}
+        {onShowInfo && (
+          <DropdownMenuItem onSelect={onShowInfo}>
+            <Info className="h-4 w-4 mr-2" /> Message info
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onSelect={onDelete} className="text-red-600 focus:text-red-600">
+          <Trash2 className="h-4 w-4 mr-2" /> Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
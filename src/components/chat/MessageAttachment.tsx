@@ -0,0 +1,78 @@
+import { useAttachmentUrl } from "@/context/chats/useAttachmentUrl";
+import { Message } from "@/types/chat";
+import { File, FileWarning, Loader2, RotateCw } from "lucide-react";
+
+interface MessageAttachmentProps {
+  message: Message;
+  // Called once media has its size, so the list can stay scrolled to the bottom
+  onLoad?: () => void;
+}
+
+// Attachments are private; they render once a signed URL for them is ready
+export function MessageAttachment({ message, onLoad }: MessageAttachmentProps) {
+  const { url, failed, retry } = useAttachmentUrl(message.attachment_url);
+
+  if (!message.attachment_url) return null;
+
+  if (failed) {
+    return (
+      <div className="mt-2 mb-1 flex items-center p-2 bg-white rounded border text-gray-500">
+        <FileWarning className="h-4 w-4 mr-2" />
+        <span className="text-xs">Attachment unavailable</span>
+        <button
+          type="button"
+          onClick={retry}
+          className="ml-3 flex items-center gap-1 text-xs text-whatsapp-teal hover:underline"
+        >
+          <RotateCw className="h-3 w-3" /> Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div className="mt-2 mb-1 flex items-center p-2 bg-white rounded border text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        <span className="text-xs">Loading attachment</span>
+      </div>
+    );
+  }
+
+  switch (message.attachment_type) {
+    case 'image':
+      return (
+        <div className="mt-2 mb-1 rounded overflow-hidden max-w-xs">
+          <img
+            src={url}
+            alt="Image attachment"
+            className="max-w-full h-auto object-contain"
+            onLoad={onLoad}
+          />
+        </div>
+      );
+    case 'video':
+      return (
+        <div className="mt-2 mb-1 rounded overflow-hidden max-w-xs">
+          <video
+            src={url}
+            controls
+            className="max-w-full h-auto"
+            onLoadedMetadata={onLoad}
+          />
+        </div>
+      );
+    default:
+      return (
+        <a
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-2 mb-1 flex items-center p-2 bg-white rounded border text-blue-600 hover:text-blue-800"
+        >
+          <File className="h-4 w-4 mr-2" />
+          <span className="text-xs truncate">Download attachment</span>
+        </a>
+      );
+  }
+}
@@ -0,0 +1,148 @@
+import { Fragment, useMemo } from "react";
+import { Highlight, Prism, themes } from "prism-react-renderer";
+import { BlockNode, InlineNode, MentionTarget, parseMarkdown } from "@/lib/markdown";
+import { splitMatches } from "@/lib/search";
+
+interface MessageContentProps {
+  content: string;
+  // Users mentioned in the message; "@Name" for each is shown as a mention
+  mentions?: MentionTarget[];
+  // Mentions of this user stand out
+  currentUserId?: string;
+  // Text found in the chat (see createHighlightPattern); active is the current find match
+  highlight?: RegExp | null;
+  highlightActive?: boolean;
+}
+
+type RenderOptions = Pick<MessageContentProps, "currentUserId" | "highlight" | "highlightActive">;
+
+const renderText = (text: string, key: number, options: RenderOptions) => {
+  if (!options.highlight) return <Fragment key={key}>{text}</Fragment>;
+
+  return (
+    <Fragment key={key}>
+      {splitMatches(text, options.highlight).map((run, index) => run.highlighted ? (
+        <mark
+          key={index}
+          className={`rounded text-inherit ${options.highlightActive ? "bg-orange-300" : "bg-yellow-200"}`}
+        >
+          {run.text}
+        </mark>
+      ) : (
+        <Fragment key={index}>{run.text}</Fragment>
+      ))}
+    </Fragment>
+  );
+};
+
+const renderInline = (nodes: InlineNode[], options: RenderOptions): React.ReactNode[] => nodes.map((node, index) => {
+  switch (node.type) {
+    case "text":
+      return renderText(node.text, index, options);
+    case "code":
+      return (
+        <code key={index} className="rounded bg-black/5 px-1 py-0.5 font-mono text-[0.8125rem]">
+          {node.text}
+        </code>
+      );
+    case "strong":
+      return <strong key={index}>{renderInline(node.children, options)}</strong>;
+    case "em":
+      return <em key={index}>{renderInline(node.children, options)}</em>;
+    case "strike":
+      return <s key={index}>{renderInline(node.children, options)}</s>;
+    case "mention":
+      return (
+        <span
+          key={index}
+          className={`rounded px-0.5 font-medium ${
+            node.userId === options.currentUserId ? "bg-yellow-200 text-yellow-900" : "text-whatsapp-teal"
+          }`}
+        >
+          {node.text}
+        </span>
+      );
+    case "link":
+      return (
+        <a
+          key={index}
+          href={node.href}
+          target={node.kind === "url" ? "_blank" : undefined}
+          rel="noopener noreferrer"
+          className="text-blue-600 underline break-all hover:text-blue-800"
+        >
+          {node.text}
+        </a>
+      );
+  }
+});
+
+function CodeBlock({ language, code }: { language: string; code: string }) {
+  // Unknown languages are shown without highlighting
+  const grammar = language && Prism.languages[language] ? language : "plain";
+
+  return (
+    <Highlight code={code} language={grammar} theme={themes.github}>
+      {({ style, tokens, getLineProps, getTokenProps }) => (
+        <pre
+          className="my-1 max-w-full overflow-x-auto rounded-md p-2 font-mono text-xs"
+          style={style}
+        >
+          {tokens.map((line, lineIndex) => (
+            <div key={lineIndex} {...getLineProps({ line })}>
+              {line.map((token, tokenIndex) => (
+                <span key={tokenIndex} {...getTokenProps({ token })} />
+              ))}
+            </div>
+          ))}
+        </pre>
+      )}
+    </Highlight>
+  );
+}
+
+const renderBlocks = (blocks: BlockNode[], options: RenderOptions): React.ReactNode[] => blocks.map((block, index) => {
+  switch (block.type) {
+    case "paragraph":
+      return (
+        <p key={index} className="whitespace-pre-wrap break-words">
+          {renderInline(block.children, options)}
+        </p>
+      );
+    case "code":
+      return <CodeBlock key={index} language={block.language} code={block.text} />;
+    case "quote":
+      return (
+        <blockquote key={index} className="border-l-4 border-gray-300 pl-2 text-gray-600">
+          {renderBlocks(block.children, options)}
+        </blockquote>
+      );
+    case "list": {
+      const items = block.items.map((item, itemIndex) => (
+        <li key={itemIndex} className="break-words">{renderInline(item, options)}</li>
+      ));
+      return block.ordered ? (
+        <ol key={index} start={block.start} className="list-decimal pl-5">{items}</ol>
+      ) : (
+        <ul key={index} className="list-disc pl-5">{items}</ul>
+      );
+    }
+  }
+});
+
+// Message text with chat Markdown applied; everything is rendered as React
+// elements, so nothing in a message is ever interpreted as HTML
+export function MessageContent({ content, mentions, currentUserId, highlight, highlightActive }: MessageContentProps) {
+  // Callers build the targets on every render; parse again only when they change
+  const mentionsKey = JSON.stringify(mentions ?? []);
+  const blocks = useMemo(
+    () => parseMarkdown(content, { mentions: JSON.parse(mentionsKey) as MentionTarget[] }),
+    [content, mentionsKey]
+  );
+
+  return (
+    <div className="space-y-1 text-sm">
+      {renderBlocks(blocks, { currentUserId, highlight, highlightActive })}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatMessageTime, formatRelativeDate } from "@/lib/chat-utils";
+import { Message, MessageEdit } from "@/types/chat";
+import { Loader2 } from "lucide-react";
+import { MessageContent } from "./MessageContent";
+
+interface MessageHistoryDialogProps {
+  message: Message | null;
+  loadEdits: (messageId: string) => Promise<MessageEdit[]>;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MessageHistoryDialog({ message, loadEdits, onOpenChange }: MessageHistoryDialogProps) {
+  const [edits, setEdits] = useState<MessageEdit[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!message) return;
+
+    let cancelled = false;
+    setEdits([]);
+    setLoading(true);
+    loadEdits(message.id).then(history => {
+      if (cancelled) return;
+      setEdits(history);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message, loadEdits]);
+
+  const formatTimestamp = (dateString: string) =>
+    `${formatRelativeDate(dateString)} at ${formatMessageTime(dateString)}`;
+
+  const renderVersion = (key: string, content: string | null, timestamp: string, current = false) => (
+    <li key={key} className="rounded-lg bg-gray-50 px-3 py-2">
+      {content && <MessageContent content={content} />}
+      <p className="text-xs text-gray-500 mt-1">
+        {current ? "Current · " : ""}{formatTimestamp(timestamp)}
+      </p>
+    </li>
+  );
+
+  return (
+    <Dialog open={!!message} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>Newest version first</DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+          </div>
+        ) : message && (
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {renderVersion(message.id, message.content, message.edited_at ?? message.created_at, true)}
+            {[...edits].reverse().map(edit => renderVersion(edit.id, edit.content, edit.created_at))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatMessageTime, formatRelativeDate, getUserInitials } from "@/lib/chat-utils";
+import { stripMarkdown } from "@/lib/markdown";
+import { Message, MessageReceipt, User } from "@/types/chat";
+import { CheckCheck } from "lucide-react";
+
+interface MessageInfoDialogProps {
+  message: Message | null;
+  receipts: MessageReceipt[];
+  users: User[];
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MessageInfoDialog({ message, receipts, users, onOpenChange }: MessageInfoDialogProps) {
+  const readBy = receipts.filter(receipt => receipt.read_at);
+  const deliveredTo = receipts.filter(receipt => !receipt.read_at && receipt.delivered_at);
+  const pending = receipts.filter(receipt => !receipt.read_at && !receipt.delivered_at);
+
+  const formatTimestamp = (dateString: string) => 
+    `${formatRelativeDate(dateString)} at ${formatMessageTime(dateString)}`;
+
+  const renderSection = (title: string, entries: MessageReceipt[], time: (receipt: MessageReceipt) => string | undefined, icon?: React.ReactNode) => (
+    <div>
+      <div className="flex items-center gap-2 text-xs font-medium text-gray-500 uppercase mb-2">
+        {icon}
+        {title}
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">Nobody yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map(receipt => {
+            const recipient = users.find(u => u.id === receipt.user_id);
+            const name = recipient?.display_name || 'Unknown User';
+            const timestamp = time(receipt);
+
+            return (
+              <li key={receipt.user_id} className="flex items-center gap-3">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={recipient?.avatar_url || `https://api.dicebear.com/7.x/initials/svg?seed=${name}`} />
+                  <AvatarFallback>{getUserInitials(name)}</AvatarFallback>
+                </Avatar>
+                <div className="flex-grow">
+                  <p className="text-sm">{name}</p>
+                  {timestamp && (
+                    <p className="text-xs text-gray-500">{formatTimestamp(timestamp)}</p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={!!message} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Message info</DialogTitle>
+          {message && (
+            <DialogDescription className="line-clamp-2">
+              {stripMarkdown(message.content)}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="space-y-4">
+          {renderSection("Read by", readBy, receipt => receipt.read_at, <CheckCheck className="h-4 w-4 text-whatsapp-blue" />)}
+          {renderSection("Delivered to", deliveredTo, receipt => receipt.delivered_at, <CheckCheck className="h-4 w-4" />)}
+          {pending.length > 0 && renderSection("Not delivered yet", pending, () => undefined)}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,45 +1,251 @@
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useMemo, ReactNode } from "react";
 import { useChats } from "@/context/chats";
+import { useAuth } from "@/context/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Send, Paperclip, Smile } from "lucide-react";
+import { Send, Paperclip, X } from "lucide-react";
 import { toast } from "@/components/ui/sonner";
+import { findMentionCandidates, getMentionQuery, getQuoteSnippet, getUserInitials } from "@/lib/chat-utils";
+import { completeShortcode, findEmojiByShortcode, getShortcodeQuery, loadSkinTone, saveRecentEmoji, withSkinTone } from "@/lib/emoji";
+import { EmojiPicker } from "./EmojiPicker";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+
+// A completion offered above the input for the word being typed
+interface Suggestion {
+  key: string;
+  icon: ReactNode;
+  label: string;
+  // Replaces the typed "@partial" or ":partial"
+  insert: string;
+  mentionId?: string;
+}
 
 export function MessageInput() {
   const [message, setMessage] = useState("");
-  const [isUploading, setIsUploading] = useState(false);
+  // Caret position, for inserting emoji and completing the word being typed
+  const [caret, setCaret] = useState(0);
+  const [selectedSuggestion, setSelectedSuggestion] = useState(0);
+  // Escape hides the suggestions until the typed word changes
+  const [dismissedQuery, setDismissedQuery] = useState<string | null>(null);
+  // Users picked from the @ suggestions for the draft
+  const [mentionIds, setMentionIds] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { sendMessage, currentChat } = useChats();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { sendMessage, currentChat, notifyTyping, stopTyping, users, replyingTo, setReplyingTo } = useChats();
+  const { user } = useAuth();
+
+  // Choosing "Reply" on a message moves the cursor here
+  useEffect(() => {
+    if (replyingTo) inputRef.current?.focus();
+  }, [replyingTo]);
+
+  // Mentions only make sense in groups; members other than the current user
+  const mentionable = useMemo(
+    () => currentChat?.is_group
+      ? users.filter(u => u.id !== user?.id && currentChat.member_ids?.includes(u.id))
+      : [],
+    [currentChat, users, user?.id]
+  );
+
+  const mention = mentionable.length > 0 ? getMentionQuery(message, caret) : null;
+  const shortcode = mention ? null : getShortcodeQuery(message, caret);
+  const typed = mention ?? shortcode;
+  // Prefixed so "@smile" and ":smile" are dismissed separately
+  const typedKey = mention ? `@${mention.query}` : shortcode ? `:${shortcode.query}` : null;
+
+  const suggestions = useMemo((): Suggestion[] => {
+    if (!typedKey || typedKey === dismissedQuery) return [];
+    const query = typedKey.slice(1);
+    if (typedKey.startsWith("@")) {
+      return findMentionCandidates(mentionable, query).map(member => ({
+        key: member.id,
+        icon: (
+          <Avatar className="h-6 w-6">
+            <AvatarImage src={member.avatar_url || `https://api.dicebear.com/7.x/initials/svg?seed=${member.display_name}`} />
+            <AvatarFallback className="text-[10px]">{getUserInitials(member.display_name || "")}</AvatarFallback>
+          </Avatar>
+        ),
+        label: member.display_name || member.email,
+        insert: `@${member.display_name} `,
+        mentionId: member.id,
+      }));
+    }
+    return completeShortcode(query).map(({ entry, shortcode: code }) => ({
+      key: code,
+      icon: <span className="text-lg leading-none">{entry.emoji}</span>,
+      label: `:${code}:`,
+      insert: withSkinTone(entry, user ? loadSkinTone(user.id) : 0),
+    }));
+  }, [typedKey, dismissedQuery, mentionable, user]);
+
+  useEffect(() => {
+    setSelectedSuggestion(0);
+  }, [typedKey]);
+
+  useEffect(() => {
+    setMentionIds([]);
+  }, [currentChat?.id]);
+
+  // Replaces text[start, end) and puts the caret after the insertion
+  const replaceText = (start: number, end: number, insertion: string) => {
+    const next = message.slice(0, start) + insertion + message.slice(end);
+    const nextCaret = start + insertion.length;
+    setMessage(next);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const insertEmoji = (emoji: string) => {
+    replaceText(caret, caret, emoji);
+  };
+
+  const completeSuggestion = (index: number) => {
+    const suggestion = suggestions[index];
+    if (!typed || !suggestion) return;
+    replaceText(typed.start, caret, suggestion.insert);
+    if (suggestion.mentionId) {
+      setMentionIds(prev => prev.includes(suggestion.mentionId!) ? prev : [...prev, suggestion.mentionId!]);
+    } else if (user) {
+      saveRecentEmoji(user.id, suggestion.insert);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setSelectedSuggestion((selectedSuggestion + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        completeSuggestion(selectedSuggestion);
+        return;
+      }
+      if (e.key === "Escape") {
+        setDismissedQuery(typedKey);
+        return;
+      }
+    }
+    if (e.key === "Escape") setReplyingTo(null);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!message.trim()) return;
     
-    await sendMessage(message);
+    // The message shows up right away; failures are retried from the bubble
+    const content = message;
+    // Picked mentions whose "@Name" was since deleted from the text are dropped
+    const mentions = mentionable
+      .filter(member => mentionIds.includes(member.id) && content.includes(`@${member.display_name}`))
+      .map(member => member.id);
     setMessage("");
+    setMentionIds([]);
+    await sendMessage(content, undefined, mentions.length > 0 ? mentions : undefined);
   };
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      try {
-        setIsUploading(true);
-        // File size validation (10MB limit)
-        if (file.size > 10 * 1024 * 1024) {
-          toast.error("File size exceeds 10MB limit");
-          return;
-        }
-        
-        await sendMessage(`Sent ${file.type.includes('image') ? 'an image' : 'a file'}: ${file.name}`, file);
-        toast.success("File uploaded successfully");
-      } catch (error) {
-        toast.error("Failed to upload file");
-      } finally {
-        setIsUploading(false);
-        e.target.value = '';
-      }
+    e.target.value = '';
+    if (!file) return;
+
+    // File size validation (10MB limit)
+    if (file.size > 10 * 1024 * 1024) {
+      toast.error("File size exceeds 10MB limit");
+      return;
     }
+    
+    await sendMessage(`Sent ${file.type.includes('image') ? 'an image' : 'a file'}: ${file.name}`, file);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    let value = e.target.value;
+    let position = e.target.selectionStart ?? value.length;
+
+    // A complete :shortcode: turns into its emoji as the closing colon is typed
+    const typed = /(^|\s):([a-z0-9_+-]+):$/i.exec(value.slice(0, position));
+    const entry = typed && findEmojiByShortcode(typed[2]);
+    if (typed && entry) {
+      const emoji = withSkinTone(entry, user ? loadSkinTone(user.id) : 0);
+      const start = position - typed[2].length - 2;
+      value = value.slice(0, start) + emoji + value.slice(position);
+      position = start + emoji.length;
+      requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+    }
+
+    setMessage(value);
+    setCaret(position);
+    if (!currentChat) return;
+
+    if (value.trim()) {
+      notifyTyping(currentChat.id);
+    } else {
+      stopTyping(currentChat.id);
+    }
+  };
+
+  const renderSuggestions = () => {
+    if (suggestions.length === 0) return null;
+
+    return (
+      <div 
+        role="listbox" 
+        aria-label={mention ? "Mention suggestions" : "Emoji suggestions"}
+        className="absolute bottom-full left-0 mb-2 w-64 rounded-md border bg-white py-1 shadow-md z-10"
+      >
+        {suggestions.map((suggestion, index) => (
+          <button
+            key={suggestion.key}
+            type="button"
+            role="option"
+            aria-selected={index === selectedSuggestion}
+            // Keep focus (and the caret) in the input
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => completeSuggestion(index)}
+            onMouseEnter={() => setSelectedSuggestion(index)}
+            className={`flex w-full items-center gap-2 px-3 py-1 text-left text-sm ${
+              index === selectedSuggestion ? "bg-gray-100" : ""
+            }`}
+          >
+            {suggestion.icon}
+            <span className="truncate text-gray-700">{suggestion.label}</span>
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const renderReplyBar = () => {
+    if (!replyingTo) return null;
+
+    const author = replyingTo.sender_id === user?.id 
+      ? "yourself" 
+      : users.find(u => u.id === replyingTo.sender_id)?.display_name || "Unknown User";
+
+    return (
+      <div className="flex items-center gap-2 mb-2 mx-12 px-3 py-2 rounded-lg bg-chat-bg border-l-4 border-whatsapp-teal">
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium text-whatsapp-teal">Replying to {author}</p>
+          <p className="text-xs text-gray-600 truncate">{getQuoteSnippet(replyingTo)}</p>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-gray-500"
+          onClick={() => setReplyingTo(null)}
+          aria-label="Cancel reply"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
   };
 
   const openFileDialog = () => {
@@ -52,24 +258,21 @@ export function MessageInput() {
 
   return (
     <div className="border-t border-chat-border bg-white p-2">
+      {renderReplyBar()}
       <form onSubmit={handleSubmit} className="flex items-center space-x-2">
-        <Button 
-          type="button"
-          variant="ghost" 
-          size="icon" 
-          className="text-gray-600"
-          onClick={() => {}}
-        >
-          <Smile className="h-6 w-6" />
-        </Button>
+        <EmojiPicker onSelect={insertEmoji} />
         
         <div className="flex-1 relative">
+          {renderSuggestions()}
           <Input
+            ref={inputRef}
             value={message}
-            onChange={(e) => setMessage(e.target.value)}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+            onBlur={() => currentChat && stopTyping(currentChat.id)}
             placeholder="Type a message"
             className="rounded-full bg-chat-bg border-none focus-visible:ring-0 focus-visible:ring-offset-0 text-sm py-6"
-            disabled={isUploading}
           />
         </div>
         
@@ -86,7 +289,6 @@ export function MessageInput() {
           size="icon" 
           className="text-gray-600"
           onClick={openFileDialog}
-          disabled={isUploading}
         >
           <Paperclip className="h-6 w-6" />
         </Button>
@@ -94,7 +296,7 @@ export function MessageInput() {
         <Button 
           type="submit" 
           size="icon" 
-          disabled={!message.trim() || isUploading}
+          disabled={!message.trim()}
           className="bg-whatsapp-teal hover:bg-whatsapp-dark text-white rounded-full h-10 w-10 flex items-center justify-center"
         >
           <Send className="h-5 w-5" />
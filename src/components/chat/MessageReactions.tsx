@@ -0,0 +1,48 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { groupReactions } from "@/lib/chat-utils";
+import { MessageReaction, User } from "@/types/chat";
+
+interface MessageReactionsProps {
+  reactions: MessageReaction[];
+  users: User[];
+  currentUserId?: string;
+  align: "start" | "end";
+  onToggle: (emoji: string) => void;
+}
+
+// Aggregated reaction chips under a bubble; the current user's own reactions are highlighted
+export function MessageReactions({ reactions, users, currentUserId, align, onToggle }: MessageReactionsProps) {
+  const summaries = groupReactions(reactions, currentUserId);
+  if (summaries.length === 0) return null;
+
+  const nameOf = (userId: string) => userId === currentUserId
+    ? "You"
+    : users.find(u => u.id === userId)?.display_name || "Unknown User";
+
+  return (
+    <div className={`flex flex-wrap gap-1 -mt-1 mb-2 ${align === "end" ? "justify-end" : "justify-start"}`}>
+      {summaries.map(summary => (
+        <Tooltip key={summary.emoji}>
+          <TooltipTrigger asChild>
+            <button
+              type="button"
+              onClick={() => onToggle(summary.emoji)}
+              className={`flex items-center gap-1 rounded-full border px-1.5 py-0.5 text-xs shadow-sm ${
+                summary.reactedByMe
+                  ? "border-whatsapp-teal bg-whatsapp-teal/10"
+                  : "border-gray-200 bg-white hover:bg-gray-50"
+              }`}
+              aria-pressed={summary.reactedByMe}
+            >
+              <span>{summary.emoji}</span>
+              <span className="text-gray-600">{summary.count}</span>
+            </button>
+          </TooltipTrigger>
+          <TooltipContent>
+            {summary.userIds.map(nameOf).join(", ")}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+    </div>
+  );
+}
@@ -2,98 +2,387 @@
 import { useChats } from "@/context/chats"; // Updated import path
 import { useAuth } from "@/context/AuthContext";
 import { Message } from "@/types/chat";
-import { useState, useEffect, useRef } from "react";
-import { File, Image } from "lucide-react";
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from "react";
+import { toast } from "@/components/ui/sonner";
+import { AlertCircle, ArrowDown, Ban, Check, CheckCheck, Clock, Loader2, MessageSquare, RotateCw, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { canDeleteForEveryone, canEditMessage, formatMessageTime, formatRelativeDate, getMentionTargets, getQuoteSnippet, getReceiptStatus } from "@/lib/chat-utils";
+import { createHighlightPattern } from "@/lib/search";
+import { MessageInfoDialog } from "./MessageInfoDialog";
+import { MessageHistoryDialog } from "./MessageHistoryDialog";
+import { MessageActionsMenu } from "./MessageActionsMenu";
+import { DeleteMessageDialog } from "./DeleteMessageDialog";
+import { ReactionPicker } from "./ReactionPicker";
+import { MessageContent } from "./MessageContent";
+import { MessageReactions } from "./MessageReactions";
+import { MessageAttachment } from "./MessageAttachment";
+
+// Start fetching the previous page this close (px) to the top
+const LOAD_OLDER_THRESHOLD = 120;
+// How long a message jumped to from a quote stays highlighted
+const HIGHLIGHT_MS = 2000;
 
 export function MessagesList() {
-  const { messages, users, currentChat } = useChats();
+  const { 
+    messages, 
+    users, 
+    receipts,
+    reactions,
+    toggleReaction,
+    currentChat, 
+    hasOlderMessages, 
+    loadingOlderMessages, 
+    loadOlderMessages,
+    markChatRead,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    loadMessageEdits,
+    revealMessage,
+    jumpTarget,
+    clearJumpTarget,
+    findOpen,
+    findQuery,
+    findMatchIds,
+    activeFindMatchId,
+    quotedMessages,
+    setReplyingTo,
+    openThread
+  } = useChats();
   const { user } = useAuth();
+  const containerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  
-  // Scroll to bottom when messages change
+  const lastMessageIdRef = useRef<string | null>(null);
+  // Scroll metrics captured before older messages are prepended
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  // Whether the user is reading the latest messages (media loads keep them there)
+  const pinnedToBottomRef = useRef(true);
+  const [infoMessage, setInfoMessage] = useState<Message | null>(null);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [deletingMessage, setDeletingMessage] = useState<Message | null>(null);
+  // Message being edited in place and its draft text
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  // Message scrolled to from a reply quote
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Set while older pages load for a jump; scrolled to once rendered
+  const pendingJumpRef = useRef<string | null>(null);
+  // The find match last scrolled to
+  const findJumpRef = useRef<string | null>(null);
+  // Messages from others that arrived while the user was reading further up
+  const [unseenCount, setUnseenCount] = useState(0);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const lastMessageId = messages[messages.length - 1]?.id ?? null;
+
+    if (container && scrollAnchorRef.current && lastMessageId === lastMessageIdRef.current) {
+      // Older page was prepended: keep the same messages under the viewport
+      const { scrollHeight, scrollTop } = scrollAnchorRef.current;
+      container.scrollTop = container.scrollHeight - scrollHeight + scrollTop;
+    } else if (!lastMessageIdRef.current) {
+      // First page
+      messagesEndRef.current?.scrollIntoView({ behavior: "auto" });
+    } else if (lastMessageId !== lastMessageIdRef.current) {
+      // New messages at the end. Follow them only when the user is already at
+      // the bottom or sent the message; otherwise leave them reading and count them.
+      const lastMessage = messages[messages.length - 1];
+      const previousIndex = messages.findIndex(message => message.id === lastMessageIdRef.current);
+      // The previous last message can also disappear (a discarded send)
+      const fromOthers = previousIndex < 0 ? 0 : messages
+        .slice(previousIndex + 1)
+        .filter(message => message.sender_id !== user?.id).length;
+
+      if (pinnedToBottomRef.current || lastMessage.sender_id === user?.id) {
+        messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+        pinnedToBottomRef.current = true;
+        setUnseenCount(0);
+
+        // A message from someone else landed in view: it has been read
+        if (currentChat && fromOthers > 0 && document.visibilityState === "visible") {
+          markChatRead(currentChat.id);
+        }
+      } else if (fromOthers > 0) {
+        setUnseenCount(count => count + fromOthers);
+      }
+    }
+
+    scrollAnchorRef.current = null;
+    lastMessageIdRef.current = lastMessageId;
+  }, [messages, currentChat, user?.id, markChatRead]);
+
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
-
-  const formatTime = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleTimeString([], { 
-      hour: '2-digit', 
-      minute: '2-digit',
-      hour12: false
-    });
+    lastMessageIdRef.current = null;
+    pinnedToBottomRef.current = true;
+    pendingJumpRef.current = null;
+    setHighlightedId(null);
+    setUnseenCount(0);
+  }, [currentChat?.id]);
+
+  const scrollToMessage = useCallback((messageId: string) => {
+    const element = containerRef.current?.querySelector(`[data-message-id="${messageId}"]`);
+    if (!element) return false;
+
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedId(messageId);
+    return true;
+  }, []);
+
+  // Finish a jump once the older pages holding the original have rendered
+  useEffect(() => {
+    if (pendingJumpRef.current && scrollToMessage(pendingJumpRef.current)) {
+      pendingJumpRef.current = null;
+    }
+  }, [messages, scrollToMessage]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  const jumpToMessage = useCallback(async (messageId: string) => {
+    if (scrollToMessage(messageId)) return;
+
+    pendingJumpRef.current = messageId;
+    const found = await revealMessage(messageId);
+    if (!found && pendingJumpRef.current === messageId) {
+      pendingJumpRef.current = null;
+      toast.error("The message is no longer available");
+    }
+  }, [scrollToMessage, revealMessage]);
+
+  // Jumps requested from elsewhere (search results) once the chat's first page is in
+  useEffect(() => {
+    if (!jumpTarget || jumpTarget.chatId !== currentChat?.id || messages[0]?.chat_id !== jumpTarget.chatId) return;
+    clearJumpTarget();
+    jumpToMessage(jumpTarget.messageId);
+  }, [jumpTarget, currentChat?.id, messages, clearJumpTarget, jumpToMessage]);
+
+  // Bring the active find match into view, paging in older history if needed
+  useEffect(() => {
+    if (activeFindMatchId === findJumpRef.current) return;
+    findJumpRef.current = activeFindMatchId;
+    if (activeFindMatchId) jumpToMessage(activeFindMatchId);
+  }, [activeFindMatchId, jumpToMessage]);
+
+  const findPattern = useMemo(
+    () => (findOpen ? createHighlightPattern(findQuery) : null),
+    [findOpen, findQuery]
+  );
+  const findMatches = useMemo(() => new Set(findMatchIds), [findMatchIds]);
+
+  const requestOlderMessages = () => {
+    const container = containerRef.current;
+    if (!container || !hasOlderMessages || loadingOlderMessages) return;
+
+    scrollAnchorRef.current = {
+      scrollHeight: container.scrollHeight,
+      scrollTop: container.scrollTop,
+    };
+    loadOlderMessages();
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const today = new Date();
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-
-    if (date.toDateString() === today.toDateString()) {
-      return "Today";
-    } else if (date.toDateString() === yesterday.toDateString()) {
-      return "Yesterday";
-    } else {
-      return date.toLocaleDateString();
+  // A short first page may not overflow, so there is nothing to scroll up from
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container && container.scrollHeight <= container.clientHeight) {
+      requestOlderMessages();
+    }
+  });
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const wasPinned = pinnedToBottomRef.current;
+    pinnedToBottomRef.current = 
+      container.scrollHeight - container.scrollTop - container.clientHeight < LOAD_OLDER_THRESHOLD;
+
+    // Scrolling back down to the latest message reads the chat
+    if (!wasPinned && pinnedToBottomRef.current && currentChat) {
+      markChatRead(currentChat.id);
+      setUnseenCount(0);
+    }
+
+    if (container.scrollTop < LOAD_OLDER_THRESHOLD) {
+      requestOlderMessages();
     }
   };
 
-  const renderAttachment = (message: Message) => {
-    if (!message.attachment_url) return null;
-    
-    switch (message.attachment_type) {
-      case 'image':
-        return (
-          <div className="mt-2 mb-1 rounded overflow-hidden max-w-xs">
-            <img 
-              src={message.attachment_url} 
-              alt="Image attachment" 
-              className="max-w-full h-auto object-contain"
-              onLoad={() => messagesEndRef.current?.scrollIntoView()}
-            />
-          </div>
-        );
-      case 'video':
-        return (
-          <div className="mt-2 mb-1 rounded overflow-hidden max-w-xs">
-            <video 
-              src={message.attachment_url} 
-              controls 
-              className="max-w-full h-auto"
-              onLoadedMetadata={() => messagesEndRef.current?.scrollIntoView()}
-            />
-          </div>
-        );
-      default:
-        return (
-          <a 
-            href={message.attachment_url} 
-            target="_blank" 
-            rel="noopener noreferrer"
-            className="mt-2 mb-1 flex items-center p-2 bg-white rounded border text-blue-600 hover:text-blue-800"
-          >
-            <File className="h-4 w-4 mr-2" />
-            <span className="text-xs truncate">Download attachment</span>
-          </a>
-        );
+  const keepPinnedToBottom = () => {
+    if (pinnedToBottomRef.current) {
+      messagesEndRef.current?.scrollIntoView();
     }
   };
 
+  const saveEdit = (message: Message) => {
+    if (!editing) return;
+    const content = editing.text.trim();
+    setEditing(null);
+    if (content && content !== message.content) {
+      editMessage(message.id, content);
+    }
+  };
+
+  const renderQuote = (message: Message) => {
+    if (!message.reply_to_id || message.deleted_at) return null;
+
+    const original = messages.find(m => m.id === message.reply_to_id) ?? quotedMessages[message.reply_to_id];
+    const author = original?.sender_id === user?.id 
+      ? "You" 
+      : users.find(u => u.id === original?.sender_id)?.display_name || "Unknown User";
+
+    return (
+      <button
+        type="button"
+        onClick={() => jumpToMessage(message.reply_to_id!)}
+        className="block w-full text-left mb-1 px-2 py-1 rounded bg-black/5 border-l-4 border-whatsapp-teal hover:bg-black/10"
+      >
+        {original ? (
+          <>
+            <span className="block text-xs font-medium text-whatsapp-teal">{author}</span>
+            <span className="block text-xs text-gray-600 truncate">{getQuoteSnippet(original)}</span>
+          </>
+        ) : (
+          <span className="block text-xs italic text-gray-500">Original message</span>
+        )}
+      </button>
+    );
+  };
+
+  const renderThreadSummary = (message: Message) => {
+    const count = message.thread_reply_count ?? 0;
+    if (count === 0) return null;
+
+    return (
+      <button
+        type="button"
+        onClick={() => openThread(message)}
+        className="flex items-center gap-1 mt-1 text-xs font-medium text-whatsapp-teal hover:underline"
+      >
+        <MessageSquare className="h-3.5 w-3.5" />
+        {count === 1 ? "1 reply" : `${count} replies`}
+        {message.thread_last_reply_at && (
+          <span className="font-normal text-gray-500">
+            · last {formatMessageTime(message.thread_last_reply_at)}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  const renderContent = (message: Message, isCurrentUser: boolean) => {
+    if (message.deleted_at) {
+      return (
+        <p className="text-sm italic text-gray-500 flex items-center gap-1">
+          <Ban className="h-3.5 w-3.5" />
+          {isCurrentUser ? "You deleted this message" : "This message was deleted"}
+        </p>
+      );
+    }
+
+    if (editing?.id === message.id) {
+      return (
+        <>
+          <Input
+            autoFocus
+            value={editing.text}
+            onChange={(e) => setEditing({ id: message.id, text: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveEdit(message);
+              if (e.key === "Escape") setEditing(null);
+            }}
+            className="h-8 text-sm bg-white"
+            aria-label="Edit message"
+          />
+          <p className="text-[10px] text-gray-500 mt-1">Enter to save · Esc to cancel</p>
+        </>
+      );
+    }
+
+    return (
+      <>
+        {message.content && (
+          <MessageContent 
+            content={message.content} 
+            mentions={getMentionTargets(message, users)} 
+            currentUserId={user?.id} 
+            highlight={findMatches.has(message.id) ? findPattern : null}
+            highlightActive={message.id === activeFindMatchId}
+          />
+        )}
+        <MessageAttachment message={message} onLoad={keepPinnedToBottom} />
+      </>
+    );
+  };
+
+  const renderActions = (message: Message, isCurrentUser: boolean) => (
+    <MessageActionsMenu
+      align={isCurrentUser ? "end" : "start"}
+      onReply={!message.deleted_at ? () => setReplyingTo(message) : undefined}
+      onReplyInThread={!message.deleted_at ? () => openThread(message) : undefined}
+      onEdit={canEditMessage(message, user?.id) 
+        ? () => setEditing({ id: message.id, text: message.content }) 
+        : undefined}
+      onShowHistory={message.edited_at && !message.deleted_at 
+        ? () => setHistoryMessage(message) 
+        : undefined}
+      onShowInfo={isCurrentUser && currentChat?.is_group && !message.deleted_at 
+        ? () => setInfoMessage(message) 
+        : undefined}
+      onDelete={() => setDeletingMessage(message)}
+    />
+  );
+
+  const renderReceiptTicks = (message: Message) => {
+    if (message.status === 'queued' || message.status === 'pending') {
+      const label = message.status === 'queued' ? 'Waiting for connection' : 'Sending';
+      return <Clock className="h-3 w-3 text-gray-500" aria-label={label} />;
+    }
+    if (message.status === 'failed') {
+      return <AlertCircle className="h-3.5 w-3.5 text-red-500" aria-label="Not sent" />;
+    }
+
+    const status = getReceiptStatus(receipts[message.id]);
+    const Icon = status === 'sent' ? Check : CheckCheck;
+    const label = status === 'read' ? 'Read' : status === 'delivered' ? 'Delivered' : 'Sent';
+    const ticks = (
+      <Icon 
+        className={`h-3.5 w-3.5 ${status === 'read' ? 'text-whatsapp-blue' : 'text-gray-500'}`} 
+        aria-label={label}
+      />
+    );
+
+    // Group messages open a "seen by" breakdown
+    if (!currentChat?.is_group) return ticks;
+    return (
+      <button 
+        type="button" 
+        onClick={() => setInfoMessage(message)} 
+        className="inline-flex"
+        title="Message info"
+      >
+        {ticks}
+      </button>
+    );
+  };
+
   const renderMessages = () => {
     let lastDateStr: string | null = null;
     
     return messages.map((message, index) => {
       const isCurrentUser = message.sender_id === user?.id;
+      const mentionsMe = !isCurrentUser && !message.deleted_at && !!user && !!message.mentions?.includes(user.id);
       const sender = users.find(u => u.id === message.sender_id);
       
       // Check if we need to display a date divider
-      const currentDateStr = formatDate(message.created_at);
+      const currentDateStr = formatRelativeDate(message.created_at);
       const showDateDivider = lastDateStr !== currentDateStr;
       lastDateStr = currentDateStr;
 
       return (
-        <div key={message.id}>
+        <div key={message.id} data-message-id={message.id}>
           {showDateDivider && (
             <div className="flex justify-center my-2">
               <div className="bg-gray-200 text-xs text-gray-600 px-2 py-1 rounded-full">
@@ -101,12 +390,18 @@ export function MessagesList() {
               </div>
             </div>
           )}
-          <div className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} mb-2`}>
+          <div 
+            className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} mb-2 -mx-4 px-4 transition-colors duration-500 ${
+              highlightedId === message.id ? 'bg-whatsapp-teal/20' : ''
+            }`}
+          >
             <div 
-              className={`rounded-lg px-4 py-2 max-w-[70%] ${
+              className={`group relative rounded-lg pl-4 pr-8 py-2 max-w-[70%] ${
                 isCurrentUser 
                   ? 'bg-chat-bubble-sent text-black rounded-tr-none' 
                   : 'bg-chat-bubble-received text-black rounded-tl-none'
+              } ${
+                message.id === activeFindMatchId ? 'ring-2 ring-orange-400' : mentionsMe ? 'ring-2 ring-yellow-300' : ''
               }`}
             >
               {currentChat?.is_group && !isCurrentUser && (
@@ -114,20 +409,72 @@ export function MessagesList() {
                   {sender?.display_name || 'Unknown User'}
                 </p>
               )}
-              {message.content && <p className="text-sm">{message.content}</p>}
-              {renderAttachment(message)}
-              <p className="text-[10px] text-gray-600 text-right mt-1">
-                {formatTime(message.created_at)}
-              </p>
+              {!message.status && renderActions(message, isCurrentUser)}
+              {!message.status && !message.deleted_at && (
+                <ReactionPicker
+                  side={isCurrentUser ? "left" : "right"}
+                  onSelect={(emoji) => toggleReaction(message, emoji)}
+                />
+              )}
+              {renderQuote(message)}
+              {renderContent(message, isCurrentUser)}
+              {renderThreadSummary(message)}
+              <div className="flex items-center justify-end gap-1 mt-1">
+                {message.edited_at && !message.deleted_at && (
+                  <button
+                    type="button"
+                    onClick={() => setHistoryMessage(message)}
+                    className="text-[10px] italic text-gray-500 hover:underline"
+                  >
+                    edited
+                  </button>
+                )}
+                <span className="text-[10px] text-gray-600">
+                  {formatMessageTime(message.created_at)}
+                </span>
+                {isCurrentUser && !message.deleted_at && renderReceiptTicks(message)}
+              </div>
+              {message.status === 'failed' && (
+                <div className="flex items-center justify-end gap-3 mt-1 text-xs">
+                  <span className="text-red-600">Not sent</span>
+                  <button 
+                    type="button" 
+                    onClick={() => retryMessage(message.id)}
+                    className="flex items-center gap-1 text-whatsapp-teal hover:underline"
+                  >
+                    <RotateCw className="h-3 w-3" /> Retry
+                  </button>
+                  <button 
+                    type="button" 
+                    onClick={() => discardMessage(message.id)}
+                    className="flex items-center gap-1 text-gray-600 hover:underline"
+                  >
+                    <Trash2 className="h-3 w-3" /> Delete
+                  </button>
+                </div>
+              )}
             </div>
           </div>
+          {!message.deleted_at && (
+            <MessageReactions
+              reactions={reactions[message.id] ?? []}
+              users={users}
+              currentUserId={user?.id}
+              align={isCurrentUser ? "end" : "start"}
+              onToggle={(emoji) => toggleReaction(message, emoji)}
+            />
+          )}
         </div>
       );
     });
   };
 
   return (
-    <div className="flex-grow overflow-y-auto p-4 bg-chat-bg">
+    <div 
+      ref={containerRef}
+      onScroll={handleScroll}
+      className="flex-grow overflow-y-auto p-4 bg-chat-bg"
+    >
       {!currentChat ? (
         <div className="flex items-center justify-center h-full">
           <div className="text-center">
@@ -143,9 +490,48 @@ export function MessagesList() {
           </div>
         </div>
       ) : (
-        renderMessages()
+        <>
+          {loadingOlderMessages && (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+            </div>
+          )}
+          {renderMessages()}
+        </>
+      )}
+      {unseenCount > 0 && (
+        <div className="sticky bottom-2 flex justify-center pointer-events-none">
+          <button
+            type="button"
+            onClick={() => messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })}
+            className="pointer-events-auto flex items-center gap-1 rounded-full bg-white px-3 py-1 text-xs font-medium text-whatsapp-teal shadow hover:bg-gray-50"
+          >
+            <ArrowDown className="h-3.5 w-3.5" />
+            {unseenCount === 1 ? "1 new message" : `${unseenCount} new messages`}
+          </button>
+        </div>
       )}
       <div ref={messagesEndRef} />
+      <MessageInfoDialog 
+        message={infoMessage}
+        receipts={infoMessage ? receipts[infoMessage.id] ?? [] : []}
+        users={users}
+        onOpenChange={(open) => !open && setInfoMessage(null)}
+      />
+      <MessageHistoryDialog
+        message={historyMessage}
+        loadEdits={loadMessageEdits}
+        onOpenChange={(open) => !open && setHistoryMessage(null)}
+      />
+      <DeleteMessageDialog
+        message={deletingMessage}
+        canDeleteForEveryone={!!deletingMessage && canDeleteForEveryone(deletingMessage, user?.id)}
+        onDelete={(scope) => {
+          if (deletingMessage) deleteMessage(deletingMessage.id, scope);
+          setDeletingMessage(null);
+        }}
+        onOpenChange={(open) => !open && setDeletingMessage(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { useChats } from "@/context/chats";
+import { useAuth } from "@/context/AuthContext";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getUserInitials } from "@/lib/chat-utils";
+import { LABEL_COLORS } from "@/lib/labels";
+import { DirectoryUser } from "@/types/chat";
+import { Search } from "lucide-react";
+
+// Radix Select items cannot have an empty value
+const NO_TYPE = "none";
+
+function UserRow({ user, subtitle, children, onClick }: {
+  user: DirectoryUser;
+  subtitle?: string;
+  children?: React.ReactNode;
+  onClick: () => void;
+}) {
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={onClick}
+        className="flex w-full items-center gap-3 rounded px-2 py-2 text-left hover:bg-gray-50"
+      >
+        {children}
+        <Avatar className="h-8 w-8">
+          <AvatarImage src={user.avatar_url || `https://api.dicebear.com/7.x/initials/svg?seed=${user.display_name}`} />
+          <AvatarFallback>{getUserInitials(user.display_name)}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-grow">
+          <p className="truncate text-sm font-medium">{user.display_name}</p>
+          {subtitle && <p className="truncate text-xs text-gray-500">{subtitle}</p>}
+        </div>
+      </button>
+    </li>
+  );
+}
+
+// Mounted while the dialog is open, so every opening starts blank
+function NewChatForm({ onDone }: { onDone: () => void }) {
+  const { chats, directory, chatTypes, labels, startDirectChat, createGroup } = useChats();
+  const { user } = useAuth();
+  const [query, setQuery] = useState("");
+  const [groupName, setGroupName] = useState("");
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [typeId, setTypeId] = useState(NO_TYPE);
+  const [groupLabels, setGroupLabels] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const needle = query.trim().toLowerCase();
+  const candidates = directory
+    .filter(candidate => candidate.id !== user?.id)
+    .filter(candidate => !needle || candidate.display_name.toLowerCase().includes(needle))
+    .sort((a, b) => a.display_name.localeCompare(b.display_name));
+
+  const hasDirectChat = (userId: string) =>
+    chats.some(chat => !chat.is_group && (chat.member_ids ?? []).includes(userId));
+
+  const toggle = <T,>(list: T[], item: T) =>
+    list.includes(item) ? list.filter(existing => existing !== item) : [...list, item];
+
+  const handleDirect = async (userId: string) => {
+    setBusy(true);
+    const chat = await startDirectChat(userId);
+    setBusy(false);
+    if (chat) onDone();
+  };
+
+  const handleCreateGroup = async () => {
+    setBusy(true);
+    const chat = await createGroup({
+      name: groupName.trim(),
+      memberIds,
+      typeId: typeId === NO_TYPE ? null : typeId,
+      labels: groupLabels,
+    });
+    setBusy(false);
+    if (chat) onDone();
+  };
+
+  const searchField = (
+    <div className="relative">
+      <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+      <Input
+        autoFocus
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search people"
+        className="h-8 pl-8 text-sm"
+      />
+    </div>
+  );
+
+  const emptyState = <p className="py-4 text-center text-sm text-gray-500">No one matches "{query.trim()}"</p>;
+
+  return (
+    <Tabs defaultValue="direct">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="direct">Direct message</TabsTrigger>
+        <TabsTrigger value="group">New group</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="direct" className="space-y-2">
+        {searchField}
+        {candidates.length === 0 ? emptyState : (
+          <ul className="max-h-72 overflow-y-auto">
+            {candidates.map(candidate => (
+              <UserRow
+                key={candidate.id}
+                user={candidate}
+                subtitle={hasDirectChat(candidate.id) ? "Open your chat" : undefined}
+                onClick={() => !busy && handleDirect(candidate.id)}
+              />
+            ))}
+          </ul>
+        )}
+      </TabsContent>
+
+      <TabsContent value="group" className="space-y-3">
+        <Input
+          value={groupName}
+          onChange={(e) => setGroupName(e.target.value)}
+          placeholder="Group name"
+          maxLength={100}
+          className="h-8 text-sm"
+        />
+        {searchField}
+        {candidates.length === 0 ? emptyState : (
+          <ul className="max-h-48 overflow-y-auto">
+            {candidates.map(candidate => (
+              <UserRow key={candidate.id} user={candidate} onClick={() => setMemberIds(prev => toggle(prev, candidate.id))}>
+                <Checkbox checked={memberIds.includes(candidate.id)} tabIndex={-1} aria-label={candidate.display_name} />
+              </UserRow>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">Type</span>
+          <Select value={typeId} onValueChange={setTypeId}>
+            <SelectTrigger className="h-8 w-auto min-w-[8rem] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TYPE} className="text-xs">No type</SelectItem>
+              {chatTypes.map(chatType => (
+                <SelectItem key={chatType.id} value={chatType.id} className="text-xs">
+                  {chatType.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {labels.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="mr-1 text-xs text-gray-500">Labels</span>
+            {labels.map(label => {
+              const selected = groupLabels.includes(label.name);
+              return (
+                <button
+                  key={label.id}
+                  type="button"
+                  onClick={() => setGroupLabels(prev => toggle(prev, label.name))}
+                  aria-pressed={selected}
+                  className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                    selected ? LABEL_COLORS[label.color].chip : "bg-white text-gray-500 ring-1 ring-inset ring-gray-200"
+                  }`}
+                >
+                  {label.name}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <span className="mr-auto self-center text-xs text-gray-500">
+            {memberIds.length === 1 ? "1 member selected" : `${memberIds.length} members selected`}
+          </span>
+          <Button
+            className="bg-whatsapp-green hover:bg-whatsapp-dark"
+            disabled={busy || !groupName.trim() || memberIds.length === 0}
+            onClick={handleCreateGroup}
+          >
+            Create group
+          </Button>
+        </DialogFooter>
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+interface NewChatDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Starts (or reopens) a direct chat, or creates a group
+export function NewChatDialog({ open, onOpenChange }: NewChatDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New chat</DialogTitle>
+          <DialogDescription>Message someone directly or start a group.</DialogDescription>
+        </DialogHeader>
+        {open && <NewChatForm onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
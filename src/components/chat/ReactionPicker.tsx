@@ -0,0 +1,48 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { SmilePlus } from "lucide-react";
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+interface ReactionPickerProps {
+  // Which side of the bubble the trigger sits on
+  side: "left" | "right";
+  onSelect: (emoji: string) => void;
+}
+
+// Hover button beside a message bubble that opens a row of quick reactions
+export function ReactionPicker({ side, onSelect }: ReactionPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`absolute top-1/2 -translate-y-1/2 ${side === "left" ? "right-full mr-1" : "left-full ml-1"} rounded-full p-1 text-gray-500 bg-white shadow-sm opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100`}
+          aria-label="Add reaction"
+        >
+          <SmilePlus className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="top" className="w-auto p-1 rounded-full">
+        <div className="flex items-center gap-0.5">
+          {QUICK_REACTIONS.map(emoji => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => {
+                onSelect(emoji);
+                setOpen(false);
+              }}
+              className="h-8 w-8 rounded-full text-lg leading-none hover:bg-gray-100 transition-transform hover:scale-110"
+              aria-label={`React with ${emoji}`}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useMemo, useState } from "react";
+import { useChats } from "@/context/chats";
+import { useAuth } from "@/context/AuthContext";
+import { searchMessages } from "@/context/chats/chatsService";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { toast } from "@/components/ui/sonner";
+import type { MessageSearchHit } from "@/lib/backend";
+import { formatMessageTime, formatRelativeDate, getChatDisplayName } from "@/lib/chat-utils";
+import { isEmptySearch, parseSearchQuery, resolveSearchQuery, splitHighlights } from "@/lib/search";
+import { File, Image, Loader2, Search } from "lucide-react";
+
+// Wait for a pause in typing before querying the server
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface SearchPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Message search across every chat, with from:/in:/has:/before:/after: filters
+export function SearchPanel({ open, onOpenChange }: SearchPanelProps) {
+  const { chats, users, openMessage } = useChats();
+  const { user } = useAuth();
+  const [input, setInput] = useState("");
+  const [hits, setHits] = useState<MessageSearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  const { query, errors } = useMemo(
+    () => resolveSearchQuery(parseSearchQuery(input), users, chats, user?.id),
+    [input, users, chats, user?.id]
+  );
+  const empty = isEmptySearch(query);
+  // Chat list updates give a new but equal query; only a real change searches again
+  const queryKey = JSON.stringify(query);
+
+  useEffect(() => {
+    if (!open || empty || errors.length > 0) {
+      setHits([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await searchMessages(JSON.parse(queryKey));
+        if (!cancelled) setHits(results);
+      } catch (error) {
+        console.error("Error searching messages:", error);
+        if (!cancelled) toast.error("Search failed");
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [open, queryKey, empty, errors.length]);
+
+  // Grouped by chat, chats in the order of their best hit
+  const groups = useMemo(() => {
+    const byChat = new Map<string, MessageSearchHit[]>();
+    hits.forEach(hit => {
+      byChat.set(hit.message.chat_id, [...(byChat.get(hit.message.chat_id) ?? []), hit]);
+    });
+    return [...byChat.entries()].map(([chatId, chatHits]) => ({
+      chat: chats.find(chat => chat.id === chatId),
+      hits: chatHits,
+    }));
+  }, [hits, chats]);
+
+  const renderSnippet = (hit: MessageSearchHit) => {
+    const snippet = hit.snippet || hit.message.content;
+    if (!snippet) {
+      const Icon = hit.message.attachment_type === "image" ? Image : File;
+      return (
+        <span className="flex items-center gap-1 text-gray-500">
+          <Icon className="h-3.5 w-3.5" />
+          {hit.message.attachment_type === "image" ? "Photo" : "File"}
+        </span>
+      );
+    }
+
+    return splitHighlights(snippet).map((run, index) => run.highlighted ? (
+      <mark key={index} className="rounded bg-yellow-200 px-0.5 text-inherit">{run.text}</mark>
+    ) : (
+      <span key={index}>{run.text}</span>
+    ));
+  };
+
+  const renderHit = (hit: MessageSearchHit) => {
+    const sender = hit.message.sender_id === user?.id
+      ? "You"
+      : users.find(u => u.id === hit.message.sender_id)?.display_name || "Unknown User";
+
+    return (
+      <button
+        key={hit.message.id}
+        type="button"
+        onClick={() => {
+          openMessage(hit.message);
+          onOpenChange(false);
+        }}
+        className="block w-full px-4 py-2 text-left hover:bg-gray-50"
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-medium text-whatsapp-teal truncate">
+            {sender}
+            {hit.message.thread_root_id && <span className="font-normal text-gray-500"> · in a thread</span>}
+          </span>
+          <span className="flex-shrink-0 text-[10px] text-gray-500">
+            {formatRelativeDate(hit.message.created_at)} {formatMessageTime(hit.message.created_at)}
+          </span>
+        </div>
+        <p className="text-sm text-gray-700 line-clamp-3 break-words">{renderSnippet(hit)}</p>
+      </button>
+    );
+  };
+
+  const renderResults = () => {
+    if (errors.length > 0) {
+      return (
+        <ul className="px-4 py-3 space-y-1 text-sm text-red-600">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      );
+    }
+    if (empty) {
+      return (
+        <div className="px-4 py-3 text-sm text-gray-500 space-y-2">
+          <p>Search messages in all your chats. Narrow it down with:</p>
+          <ul className="space-y-1 font-mono text-xs">
+            <li>from:alice · from:me</li>
+            <li>in:"Project team"</li>
+            <li>has:image · has:file</li>
+            <li>before:2024-01-31 · after:2024-01-01</li>
+          </ul>
+        </div>
+      );
+    }
+    if (searching && hits.length === 0) {
+      return (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+        </div>
+      );
+    }
+    if (hits.length === 0) {
+      return <p className="px-4 py-3 text-sm text-gray-500">No messages found</p>;
+    }
+
+    return groups.map(group => (
+      <section key={group.hits[0].message.chat_id} className="py-1">
+        <h4 className="sticky top-0 bg-gray-50 px-4 py-1 text-xs font-semibold text-gray-600">
+          {group.chat ? getChatDisplayName(group.chat, users, user?.id) : "Chat"}
+        </h4>
+        {group.hits.map(renderHit)}
+      </section>
+    ));
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="flex flex-col gap-0 p-0 w-full sm:max-w-md">
+        <SheetHeader className="px-4 py-3 border-b border-chat-border text-left">
+          <SheetTitle className="text-base">Search messages</SheetTitle>
+          <SheetDescription>
+            {hits.length > 0 ? `${hits.length} result${hits.length === 1 ? "" : "s"}` : "Across all your chats"}
+          </SheetDescription>
+        </SheetHeader>
+        <div className="relative px-4 py-2 border-b border-chat-border">
+          <Search className="absolute left-7 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+          <Input
+            autoFocus
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder='e.g. deploy from:alice has:file'
+            className="pl-9 text-sm"
+          />
+        </div>
+        <div className="flex-grow overflow-y-auto">
+          {renderResults()}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
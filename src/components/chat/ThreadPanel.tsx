@@ -0,0 +1,210 @@
+import { useEffect, useRef, useState } from "react";
+import { useChats } from "@/context/chats";
+import { useAuth } from "@/context/AuthContext";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { formatMessageTime, formatRelativeDate, getMentionTargets, getUserInitials } from "@/lib/chat-utils";
+import { useAttachmentUrl } from "@/context/chats/useAttachmentUrl";
+import { Message } from "@/types/chat";
+import { MessageContent } from "./MessageContent";
+import { AlertCircle, Ban, Clock, File, Loader2, RotateCw, Send, Trash2 } from "lucide-react";
+
+// Compact link to a private attachment; inert until its signed URL is ready
+function AttachmentLink({ attachment }: { attachment: string }) {
+  const { url, failed, retry } = useAttachmentUrl(attachment);
+
+  if (failed) {
+    return (
+      <button
+        type="button"
+        onClick={retry}
+        className="mt-1 inline-flex items-center text-xs text-gray-500 hover:text-gray-700"
+        title="Retry"
+      >
+        <RotateCw className="h-3.5 w-3.5 mr-1" /> Attachment unavailable
+      </button>
+    );
+  }
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      aria-disabled={!url}
+      className="mt-1 inline-flex items-center text-xs text-blue-600 hover:text-blue-800 aria-disabled:pointer-events-none aria-disabled:text-gray-400"
+    >
+      <File className="h-3.5 w-3.5 mr-1" /> Attachment
+    </a>
+  );
+}
+
+// Side panel with a thread's root message, its replies and a composer
+export function ThreadPanel() {
+  const {
+    threadRoot,
+    threadMessages,
+    hasOlderThreadMessages,
+    loadingThread,
+    loadOlderThreadMessages,
+    closeThread,
+    sendThreadReply,
+    retryMessage,
+    discardMessage,
+    users,
+  } = useChats();
+  const { user } = useAuth();
+  const [reply, setReply] = useState("");
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const lastReplyId = threadMessages[threadMessages.length - 1]?.id;
+
+  // Follow new replies
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [lastReplyId]);
+
+  useEffect(() => {
+    setReply("");
+  }, [threadRoot?.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reply.trim()) return;
+
+    const content = reply;
+    setReply("");
+    await sendThreadReply(content);
+  };
+
+  const renderMessage = (message: Message) => {
+    const sender = users.find(u => u.id === message.sender_id);
+    const name = message.sender_id === user?.id ? "You" : sender?.display_name || "Unknown User";
+
+    return (
+      <div key={message.id} className="flex gap-3 px-4 py-2 hover:bg-gray-50">
+        <Avatar className="h-8 w-8 flex-shrink-0">
+          <AvatarImage src={sender?.avatar_url || `https://api.dicebear.com/7.x/initials/svg?seed=${sender?.display_name || 'Unknown User'}`} />
+          <AvatarFallback>{getUserInitials(sender?.display_name || "Unknown User")}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">{name}</span>
+            <span className="text-[10px] text-gray-500">
+              {formatRelativeDate(message.created_at)} {formatMessageTime(message.created_at)}
+            </span>
+            {message.edited_at && !message.deleted_at && (
+              <span className="text-[10px] italic text-gray-500">edited</span>
+            )}
+            {(message.status === "queued" || message.status === "pending") && (
+              <Clock className="h-3 w-3 text-gray-500" aria-label="Sending" />
+            )}
+            {message.status === "failed" && (
+              <AlertCircle className="h-3.5 w-3.5 text-red-500" aria-label="Not sent" />
+            )}
+          </div>
+          {message.deleted_at ? (
+            <p className="text-sm italic text-gray-500 flex items-center gap-1">
+              <Ban className="h-3.5 w-3.5" /> This message was deleted
+            </p>
+          ) : (
+            <>
+              {message.content && (
+                <MessageContent
+                  content={message.content}
+                  mentions={getMentionTargets(message, users)}
+                  currentUserId={user?.id}
+                />
+              )}
+              {message.attachment_url && <AttachmentLink attachment={message.attachment_url} />}
+            </>
+          )}
+          {message.status === "failed" && (
+            <div className="flex items-center gap-3 mt-1 text-xs">
+              <button
+                type="button"
+                onClick={() => retryMessage(message.id)}
+                className="flex items-center gap-1 text-whatsapp-teal hover:underline"
+              >
+                <RotateCw className="h-3 w-3" /> Retry
+              </button>
+              <button
+                type="button"
+                onClick={() => discardMessage(message.id)}
+                className="flex items-center gap-1 text-gray-600 hover:underline"
+              >
+                <Trash2 className="h-3 w-3" /> Delete
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const replyCount = threadRoot?.thread_reply_count ?? 0;
+
+  return (
+    <Sheet open={!!threadRoot} onOpenChange={(open) => !open && closeThread()}>
+      <SheetContent side="right" className="flex flex-col gap-0 p-0 w-full sm:max-w-md">
+        <SheetHeader className="px-4 py-3 border-b border-chat-border text-left">
+          <SheetTitle className="text-base">Thread</SheetTitle>
+          <SheetDescription>
+            {replyCount === 1 ? "1 reply" : `${replyCount} replies`}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-grow overflow-y-auto py-2">
+          {threadRoot && renderMessage(threadRoot)}
+          <div className="flex items-center gap-2 px-4 my-2 text-xs text-gray-500">
+            <div className="h-px flex-1 bg-gray-200" />
+            Replies
+            <div className="h-px flex-1 bg-gray-200" />
+          </div>
+          {hasOlderThreadMessages && (
+            <div className="flex justify-center py-1">
+              <Button variant="ghost" size="sm" onClick={loadOlderThreadMessages} disabled={loadingThread}>
+                Load earlier replies
+              </Button>
+            </div>
+          )}
+          {loadingThread && threadMessages.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+            </div>
+          ) : threadMessages.length === 0 ? (
+            <p className="px-4 text-sm text-gray-500">No replies yet. Start the thread!</p>
+          ) : (
+            threadMessages.map(renderMessage)
+          )}
+          <div ref={repliesEndRef} />
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex items-center gap-2 border-t border-chat-border p-2">
+          <Input
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Reply in thread"
+            className="rounded-full bg-chat-bg border-none focus-visible:ring-0 focus-visible:ring-offset-0 text-sm"
+            disabled={!threadRoot || !!threadRoot.deleted_at}
+          />
+          <Button
+            type="submit"
+            size="icon"
+            disabled={!reply.trim()}
+            className="bg-whatsapp-teal hover:bg-whatsapp-dark text-white rounded-full h-10 w-10 flex-shrink-0"
+          >
+            <Send className="h-5 w-5" />
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useChats } from "@/context/chats";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ChatTypeBadge } from "@/components/chat/ChatTypeBadge";
+import { ColorPicker } from "@/components/chat/ColorPicker";
+import { CHAT_TYPE_ICON_KEYS, CHAT_TYPE_ICONS, getChatTypeIcon } from "@/lib/chat-types";
+import { ChatType, LabelColor } from "@/types/chat";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+
+function IconPicker({ icon, onChange }: { icon: string; onChange: (icon: string) => void }) {
+  const Icon = getChatTypeIcon(icon);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="icon" className="h-8 w-8 flex-shrink-0" title="Change icon">
+          <Icon className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="grid w-auto grid-cols-6 gap-1 p-2">
+        {CHAT_TYPE_ICON_KEYS.map(key => {
+          const Option = CHAT_TYPE_ICONS[key];
+          return (
+            <Button
+              key={key}
+              type="button"
+              variant={key === icon ? "secondary" : "ghost"}
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onChange(key)}
+              title={key}
+            >
+              <Option className="h-4 w-4" />
+            </Button>
+          );
+        })}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function ChatTypeRow({ chatType, isFirst, isLast, onMove }: {
+  chatType: ChatType;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (offset: -1 | 1) => void;
+}) {
+  const { updateType, deleteType } = useChats();
+  const [name, setName] = useState(chatType.name);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  // Renames are saved when the field loses focus or on Enter
+  const handleRename = () => {
+    if (name.trim() && name.trim() !== chatType.name) {
+      updateType(chatType.id, { name });
+    } else {
+      setName(chatType.name);
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-2 py-2">
+      <div className="flex flex-col">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-4 w-6 text-gray-500"
+          disabled={isFirst}
+          onClick={() => onMove(-1)}
+          title="Move up"
+        >
+          <ArrowUp className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-4 w-6 text-gray-500"
+          disabled={isLast}
+          onClick={() => onMove(1)}
+          title="Move down"
+        >
+          <ArrowDown className="h-3 w-3" />
+        </Button>
+      </div>
+      <IconPicker icon={chatType.icon} onChange={(icon) => updateType(chatType.id, { icon })} />
+      <ColorPicker color={chatType.color} onChange={(color) => updateType(chatType.id, { color })} />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={handleRename}
+        onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+        maxLength={32}
+        className="h-8 flex-grow text-sm"
+        aria-label="Name"
+      />
+      <div className="w-28 flex-shrink-0">
+        <ChatTypeBadge chatType={{ ...chatType, name: name.trim() || chatType.name }} />
+      </div>
+      {confirmingDelete ? (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2 text-xs text-red-600"
+          onClick={() => deleteType(chatType.id)}
+          onBlur={() => setConfirmingDelete(false)}
+          autoFocus
+        >
+          Delete
+        </Button>
+      ) : (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-gray-500"
+          onClick={() => setConfirmingDelete(true)}
+          title="Delete chat type"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </li>
+  );
+}
+
+// Edits the workspace chat type registry; the order here is the order everywhere
+export function ChatTypesSettings() {
+  const { chatTypes, createType, reorderTypes } = useChats();
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<LabelColor>("gray");
+  const [newIcon, setNewIcon] = useState("tag");
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    const created = await createType(newName, newColor, newIcon);
+    if (created) {
+      setNewName("");
+      setNewColor("gray");
+      setNewIcon("tag");
+    }
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const typeIds = chatTypes.map(chatType => chatType.id);
+    [typeIds[index], typeIds[index + offset]] = [typeIds[index + offset], typeIds[index]];
+    reorderTypes(typeIds);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Chat types</CardTitle>
+        <CardDescription>
+          Categories for chats, shown as a badge in the chat list. Deleting a type leaves its chats untyped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {chatTypes.length === 0 ? (
+          <p className="py-2 text-sm text-gray-500">No chat types yet. Create the first one below.</p>
+        ) : (
+          <ul className="divide-y divide-chat-border">
+            {chatTypes.map((chatType, index) => (
+              <ChatTypeRow
+                // Remounts with the latest name when it is renamed elsewhere
+                key={`${chatType.id}:${chatType.name}`}
+                chatType={chatType}
+                isFirst={index === 0}
+                isLast={index === chatTypes.length - 1}
+                onMove={(offset) => handleMove(index, offset)}
+              />
+            ))}
+          </ul>
+        )}
+
+        <form
+          className="mt-3 flex items-center gap-2 border-t border-chat-border pt-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreate();
+          }}
+        >
+          <div className="w-6 flex-shrink-0" />
+          <IconPicker icon={newIcon} onChange={setNewIcon} />
+          <ColorPicker color={newColor} onChange={setNewColor} />
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New chat type"
+            maxLength={32}
+            className="h-8 text-sm"
+          />
+          <Button type="submit" variant="outline" size="sm" className="h-8" disabled={!newName.trim()}>
+            <Plus className="h-3.5 w-3.5 mr-1" /> Add
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,26 +1,12 @@
-
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Session, User, createClient } from '@supabase/supabase-js';
 import { useNavigate } from 'react-router-dom';
 import { toast } from "@/components/ui/sonner";
-
-// Default to empty strings for development/testing
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
-
-// Initialize Supabase client
-const supabase = (supabaseUrl && supabaseAnonKey) 
-  ? createClient(supabaseUrl, supabaseAnonKey)
-  : null;
-
-// Log warning for missing credentials
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.warn("Supabase credentials missing. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.");
-}
+import { backend } from '@/lib/backend';
+import type { AuthSession, AuthUser } from '@/lib/backend';
 
 interface AuthContextProps {
-  session: Session | null;
-  user: User | null;
+  session: AuthSession | null;
+  user: AuthUser | null;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, displayName: string) => Promise<void>;
   signOut: () => Promise<void>;
@@ -30,78 +16,45 @@ interface AuthContextProps {
 const AuthContext = createContext<AuthContextProps | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [session, setSession] = useState<Session | null>(null);
-  const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
 
-  // Display graceful message if Supabase is not initialized
-  useEffect(() => {
-    if (!supabase) {
-      toast.error("Supabase connection not configured. Please connect to Supabase.");
-      setLoading(false);
-    }
-  }, []);
-
   // Check for session on load
   useEffect(() => {
-    if (!supabase) return;
-    
     setLoading(true);
     
     // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    backend.auth.getSession().then((session) => {
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
     });
 
     // Set up auth state change listener
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        setSession(session);
-        setUser(session?.user ?? null);
-        setLoading(false);
-      }
-    );
-
-    return () => {
-      subscription.unsubscribe();
-    };
+    return backend.auth.onAuthStateChange((session) => {
+      setSession(session);
+      setUser(session?.user ?? null);
+      setLoading(false);
+    });
   }, []);
 
   const signIn = async (email: string, password: string) => {
     try {
-      if (!supabase) {
-        toast.error("Authentication service unavailable. Please connect to Supabase.");
-        return;
-      }
-      
       setLoading(true);
       
-      const { error, data } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-      
-      if (error) throw error;
+      const signedInUser = await backend.auth.signIn(email, password);
 
       // Add user metadata to users table if not exists
-      if (data.user) {
-        const { error: metadataError } = await supabase
-          .from('users')
-          .upsert({
-            id: data.user.id,
-            email: data.user.email,
-            display_name: data.user.email?.split('@')[0] || 'User',
-            created_at: new Date().toISOString(),
-          })
-          .select()
-          .single();
-
-        if (metadataError) {
-          console.error('Error adding user metadata:', metadataError);
-        }
+      try {
+        await backend.users.ensure({
+          id: signedInUser.id,
+          email: signedInUser.email,
+          display_name: signedInUser.email?.split('@')[0] || 'User',
+        });
+      } catch (metadataError) {
+        console.error('Error adding user metadata:', metadataError);
       }
       
       navigate('/');
@@ -115,37 +68,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signUp = async (email: string, password: string, displayName: string) => {
     try {
-      if (!supabase) {
-        toast.error("Authentication service unavailable. Please connect to Supabase.");
-        return;
-      }
-      
       setLoading(true);
       
-      const { error, data } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          data: {
-            display_name: displayName,
-          }
-        }
-      });
-      
-      if (error) throw error;
+      const createdUser = await backend.auth.signUp(email, password, displayName);
 
       // Add user to users table
-      if (data.user) {
-        const { error: metadataError } = await supabase
-          .from('users')
-          .insert({
-            id: data.user.id,
-            email: data.user.email,
+      if (createdUser) {
+        try {
+          await backend.users.ensure({
+            id: createdUser.id,
+            email: createdUser.email,
             display_name: displayName,
-            created_at: new Date().toISOString(),
           });
-
-        if (metadataError) {
+        } catch (metadataError) {
           console.error('Error adding user:', metadataError);
         }
       }
@@ -161,13 +96,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signOut = async () => {
     try {
-      if (!supabase) {
-        toast.error("Authentication service unavailable. Please connect to Supabase.");
-        return;
-      }
-      
       setLoading(true);
-      await supabase.auth.signOut();
+      await backend.auth.signOut();
       navigate('/login');
       toast.success("Successfully logged out!");
     } catch (error: any) {
@@ -1,67 +1,137 @@
 
-import React, { createContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../AuthContext';
-import { Chat, Message, User } from '@/types/chat';
+import { Chat, DirectoryUser, Message, User } from '@/types/chat';
 import { toast } from '@/components/ui/sonner';
+import { backend } from '@/lib/backend';
+import type { NewGroupChat } from '@/lib/backend';
+import { getChatDisplayName, mergeMessage, replaceMessage, sortChatsByRecent } from '@/lib/chat-utils';
 import { ChatsContextProps } from './types';
 import { 
-  supabase, 
   fetchUsers, 
+  fetchUserDirectory,
   fetchUserChats, 
+  fetchChatSummary,
   fetchChatMessages, 
-  sendChatMessage 
+  markMessagesDelivered,
+  editChatMessage,
+  deleteChatMessage,
+  fetchMessageEdits,
+  toMessageCursor,
+  setChatAssignee,
+  setChatType,
+  applyChatLabels,
+  openDirectChat,
+  createGroupChat,
+  removeChatMember
 } from './chatsService';
+import { useMessageReactions } from './useMessageReactions';
+import { useMessageReceipts } from './useMessageReceipts';
+import { useTypingIndicators } from './useTypingIndicators';
+import { usePresence } from './usePresence';
+import { useOutbox } from './useOutbox';
+import { useQuotedMessages } from './useQuotedMessages';
+import { useThread } from './useThread';
+import { useChatFind } from './useChatFind';
+import { useSavedFilters } from './useSavedFilters';
+import { useChatLabels } from './useChatLabels';
+import { useChatTypes } from './useChatTypes';
+import { useGroupMembers } from './useGroupMembers';
 
 export const ChatsContext = createContext<ChatsContextProps | undefined>(undefined);
 
+const upsertChat = (chats: Chat[], updatedChat: Chat) => {
+  const exists = chats.some(chat => chat.id === updatedChat.id);
+  if (exists) {
+    return sortChatsByRecent(chats.map(chat => 
+      chat.id === updatedChat.id ? { ...chat, ...updatedChat } : chat
+    ));
+  }
+  return sortChatsByRecent([...chats, updatedChat]);
+};
+
 export const ChatsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const [chats, setChats] = useState<Chat[]>([]);
   const [filteredChats, setFilteredChats] = useState<Chat[]>([]);
   const [currentChat, setCurrentChat] = useState<Chat | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const [directory, setDirectory] = useState<DirectoryUser[]>([]);
   const [loading, setLoading] = useState(true);
-  const [messageSubscription, setMessageSubscription] = useState<any>(null);
-  const [initialized, setInitialized] = useState(!!supabase);
-
-  // Display error if Supabase is not initialized
-  useEffect(() => {
-    if (!supabase) {
-      toast.error("Chat functionality unavailable. Supabase connection failed.");
-      setLoading(false);
-      setInitialized(false);
-    } else {
-      setInitialized(true);
-    }
-  }, []);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const [jumpTarget, setJumpTarget] = useState<{ chatId: string; messageId: string } | null>(null);
+  // The message the composer is replying to, consumed by the next send
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Guards against pages arriving after the user switched chats
+  const currentChatIdRef = useRef<string | null>(null);
+  const { typingByChat, notifyTyping, stopTyping, clearTyping } = useTypingIndicators(user, chats);
+  const onlineUserIds = usePresence(user);
+  const find = useChatFind(currentChat);
+  const { savedFilters, saveFilter, updateFilter, deleteFilter } = useSavedFilters(user);
+  const { labels, createLabel, updateLabel, deleteLabel } = useChatLabels(user);
+  const { chatTypes, createType, updateType, deleteType, reorderTypes } = useChatTypes(user);
+  // The list copy of the open chat carries live member ids
+  const group = useGroupMembers(chats.find(chat => chat.id === currentChat?.id) ?? null);
 
   // Fetch users
   useEffect(() => {
     const loadUsers = async () => {
-      if (!user || !initialized) return;
+      if (!user) return;
       
       try {
-        const usersData = await fetchUsers();
+        const [usersData, directoryData] = await Promise.all([fetchUsers(), fetchUserDirectory()]);
         setUsers(usersData);
+        setDirectory(directoryData);
       } catch (error) {
         console.error('Error fetching users:', error);
       }
     };
     
     loadUsers();
-  }, [user, initialized]);
+  }, [user]);
+
+  // Profiles only become readable once a chat is shared, so load those of new
+  // chat partners when they show up (after the first load, which has the rest)
+  const unknownMemberIds = users.length === 0 ? '' : [...new Set(chats.flatMap(chat => chat.member_ids ?? []))]
+    .filter(memberId => !users.some(existing => existing.id === memberId))
+    .sort()
+    .join(',');
+  useEffect(() => {
+    if (!user || !unknownMemberIds) return;
+    fetchUsers().then((usersData) => {
+      if (usersData.length > 0) setUsers(usersData);
+    });
+  }, [user, unknownMemberIds]);
+
+  // Keep last_seen and other profile fields of known users current
+  useEffect(() => {
+    if (!user) return;
+
+    return backend.realtime.onUserChange((change) => {
+      const updatedUser = change.new;
+      if (!updatedUser) return;
+      setUsers(prev => prev.map(existing => 
+        existing.id === updatedUser.id ? { ...existing, ...updatedUser } : existing
+      ));
+    });
+  }, [user]);
 
   // Fetch chats
   useEffect(() => {
     const loadChats = async () => {
-      if (!user || !initialized) return;
+      if (!user) {
+        setLoading(false);
+        return;
+      }
       
       try {
         setLoading(true);
         const chatsData = await fetchUserChats(user.id);
         setChats(chatsData);
         setFilteredChats(chatsData);
+        markMessagesDelivered(user.id);
       } catch (error) {
         console.error('Error fetching chats:', error);
         toast.error('Failed to load chats');
@@ -71,79 +141,225 @@ export const ChatsProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     };
     
     loadChats();
-  }, [user, initialized]);
+  }, [user]);
 
   // Subscribe to chat changes
   useEffect(() => {
-    if (!user || !supabase || !initialized) return;
+    if (!user) return;
     
-    const subscription = supabase
-      .channel('public:chats')
-      .on('postgres_changes', { 
-        event: '*', 
-        schema: 'public', 
-        table: 'chats' 
-      }, async (payload) => {
-        if (payload.new && typeof payload.new === 'object' && 'id' in payload.new) {
-          // Check if this is a chat the user is part of
-          const { data } = await supabase
-            .from('chat_members')
-            .select('chat_id')
-            .eq('chat_id', payload.new.id)
-            .eq('user_id', user.id)
-            .single();
-            
-          if (data) {
-            // Refresh chats
-            const { data: updatedChat } = await supabase
-              .from('chats')
-              .select('*')
-              .eq('id', payload.new.id)
-              .single();
-              
-            if (updatedChat) {
-              setChats(prev => {
-                const exists = prev.some(chat => chat.id === updatedChat.id);
-                if (exists) {
-                  return prev.map(chat => 
-                    chat.id === updatedChat.id ? updatedChat : chat
-                  );
-                } else {
-                  return [...prev, updatedChat];
-                }
-              });
-              
-              setFilteredChats(prev => {
-                const exists = prev.some(chat => chat.id === updatedChat.id);
-                if (exists) {
-                  return prev.map(chat => 
-                    chat.id === updatedChat.id ? updatedChat : chat
-                  );
-                } else {
-                  return [...prev, updatedChat];
-                }
-              });
-            }
-          }
+    return backend.realtime.onChatChange(async (change) => {
+      if (!change.new) return;
+
+      const updatedChat = await fetchChatSummary(change.new.id, user.id);
+      if (updatedChat) {
+        setChats(prev => upsertChat(prev, updatedChat));
+        setFilteredChats(prev => upsertChat(prev, updatedChat));
+
+        if (updatedChat.last_message && updatedChat.last_message.sender_id !== user.id) {
+          markMessagesDelivered(user.id, updatedChat.id);
+          clearTyping(updatedChat.id, updatedChat.last_message.sender_id);
         }
-      })
-      .subscribe();
-      
-    return () => {
-      if (supabase) {
-        supabase.removeChannel(subscription);
       }
-    };
-  }, [user, initialized]);
+    });
+  }, [user, clearTyping]);
+
+  // Takes a chat the user no longer belongs to out of the list, closing it if open
+  const dropChat = useCallback((chatId: string) => {
+    setChats(prev => prev.filter(chat => chat.id !== chatId));
+    setFilteredChats(prev => prev.filter(chat => chat.id !== chatId));
+    setCurrentChat(prev => (prev?.id === chatId ? null : prev));
+  }, []);
+
+  // Read state changes (possibly from another device) refresh that chat's badge
+  useEffect(() => {
+    if (!user) return;
+
+    return backend.realtime.onMembershipChange(user.id, async (change) => {
+      const chatId = change.new?.chat_id ?? change.old?.chat_id;
+      if (!chatId) return;
+
+      const updatedChat = await fetchChatSummary(chatId, user.id);
+      if (updatedChat) {
+        setChats(prev => upsertChat(prev, updatedChat));
+        setFilteredChats(prev => upsertChat(prev, updatedChat));
+      } else if (change.event === 'DELETE') {
+        // Removed from the chat (or left it elsewhere)
+        dropChat(chatId);
+      }
+    });
+  }, [user, dropChat]);
+
+  const receipts = useMessageReceipts(user, currentChat, messages);
+  const { reactions, toggleReaction } = useMessageReactions(user, currentChat, messages);
+  const quotedMessages = useQuotedMessages(currentChat, messages);
+
+  const patchChat = useCallback((chatId: string, patch: Partial<Chat>) => {
+    const apply = (prev: Chat[]) => prev.map(chat => 
+      chat.id === chatId ? { ...chat, ...patch } : chat
+    );
+    setChats(apply);
+    setFilteredChats(apply);
+  }, []);
+
+  const markChatRead = useCallback(async (chatId: string) => {
+    if (!user) return;
+
+    patchChat(chatId, { unread_count: 0, unread_mention_count: 0, marked_unread: false });
+    try {
+      await backend.members.markRead(chatId, user.id);
+    } catch (error) {
+      console.error('Error marking chat as read:', error);
+    }
+  }, [user, patchChat]);
+
+  const markChatUnread = useCallback(async (chatId: string) => {
+    if (!user) return;
+
+    patchChat(chatId, { marked_unread: true });
+    try {
+      await backend.members.markUnread(chatId, user.id);
+    } catch (error) {
+      console.error('Error marking chat as unread:', error);
+      toast.error('Failed to mark chat as unread');
+    }
+  }, [user, patchChat]);
+
+  const assignChat = useCallback(async (chatId: string, userId: string | null) => {
+    const previous = chats.find(chat => chat.id === chatId)?.assigned_to ?? null;
+
+    patchChat(chatId, { assigned_to: userId });
+    try {
+      await setChatAssignee(chatId, userId);
+    } catch (error) {
+      console.error('Error assigning chat:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to assign chat');
+      patchChat(chatId, { assigned_to: previous });
+    }
+  }, [chats, patchChat]);
+
+  const changeChatType = useCallback(async (chatId: string, typeId: string | null) => {
+    const previous = chats.find(chat => chat.id === chatId)?.type_id ?? null;
+
+    patchChat(chatId, { type_id: typeId });
+    try {
+      await setChatType(chatId, typeId);
+    } catch (error) {
+      console.error('Error changing chat type:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change chat type');
+      patchChat(chatId, { type_id: previous });
+    }
+  }, [chats, patchChat]);
+
+  // Lists and opens a chat the user just started or went back to
+  const showChat = useCallback(async (chatId: string) => {
+    if (!user) return null;
+
+    const chat = await fetchChatSummary(chatId, user.id);
+    if (!chat) throw new Error('Chat not found');
+    setChats(prev => upsertChat(prev, chat));
+    setFilteredChats(prev => upsertChat(prev, chat));
+    if (currentChatIdRef.current !== chat.id) setCurrentChat(chat);
+    return chat;
+  }, [user]);
+
+  const startDirectChat = useCallback(async (userId: string) => {
+    try {
+      return await showChat(await openDirectChat(userId));
+    } catch (error) {
+      console.error('Error starting chat:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start chat');
+      return null;
+    }
+  }, [showChat]);
+
+  const createGroup = useCallback(async (group: NewGroupChat) => {
+    try {
+      return await showChat(await createGroupChat(group));
+    } catch (error) {
+      console.error('Error creating group:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create group');
+      return null;
+    }
+  }, [showChat]);
 
-  // Fetch messages when current chat changes
+  const leaveGroup = useCallback(async (chatId: string) => {
+    if (!user) return;
+
+    try {
+      await removeChatMember(chatId, user.id);
+      dropChat(chatId);
+    } catch (error) {
+      console.error('Error leaving group:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to leave group');
+    }
+  }, [user, dropChat]);
+
+  // Shown at once; the server's chat updates follow over realtime
+  const updateChatLabels = useCallback(async (chatIds: string[], add: string[], remove: string[]) => {
+    const previous = new Map(chats.map(chat => [chat.id, chat.labels ?? []]));
+
+    chatIds.forEach(chatId => {
+      const current = previous.get(chatId) ?? [];
+      patchChat(chatId, {
+        labels: [...new Set([...current, ...add])].filter(name => !remove.includes(name)).sort(),
+      });
+    });
+    try {
+      await applyChatLabels(chatIds, add, remove);
+    } catch (error) {
+      console.error('Error updating chat labels:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update labels');
+      chatIds.forEach(chatId => patchChat(chatId, { labels: previous.get(chatId) ?? [] }));
+    }
+  }, [chats, patchChat]);
+
+  // Opening a chat reads it
   useEffect(() => {
+    if (currentChat) {
+      markChatRead(currentChat.id);
+    }
+  }, [currentChat, markChatRead]);
+
+  // Outgoing messages the server has not confirmed yet, shown in their chat
+  // (or in the open thread for thread replies)
+  const outbox = useOutbox(session, {
+    onUpdate: (message) => {
+      if (message.thread_root_id) {
+        thread.applyThreadMessage(message);
+      } else if (currentChatIdRef.current === message.chat_id) {
+        setMessages(prev => mergeMessage(prev, message));
+      }
+    },
+    onRemove: (removed) => {
+      if (removed.thread_root_id) {
+        thread.removeThreadMessage(removed.id);
+      } else if (currentChatIdRef.current === removed.chat_id) {
+        setMessages(prev => prev.filter(message => message.id !== removed.id));
+      }
+    },
+  });
+  const { confirm: confirmOutgoing, outgoingFor } = outbox;
+  const thread = useThread(currentChat, outgoingFor);
+  const { applyThreadMessage, removeThreadMessage } = thread;
+
+  // Fetch the newest page and subscribe to new messages when current chat changes
+  useEffect(() => {
+    currentChatIdRef.current = currentChat?.id ?? null;
+    setMessages([]);
+    setHasOlderMessages(false);
+    setLoadingOlderMessages(false);
+    setReplyingTo(null);
+
+    if (!currentChat) return;
+
     const loadMessages = async () => {
-      if (!currentChat || !initialized) return;
-      
       try {
-        const messagesData = await fetchChatMessages(currentChat.id);
-        setMessages(messagesData);
+        const page = await fetchChatMessages(currentChat.id);
+        if (currentChatIdRef.current !== currentChat.id) return;
+        // Unconfirmed sends stay at the end of the conversation
+        const outgoing = outgoingFor(currentChat.id).filter(message => !message.thread_root_id);
+        setMessages(outgoing.reduce(mergeMessage, page.messages));
+        setHasOlderMessages(page.hasMore);
       } catch (error) {
         console.error('Error fetching messages:', error);
         toast.error('Failed to load messages');
@@ -152,48 +368,163 @@ export const ChatsProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     
     loadMessages();
     
-    // Clean up previous subscription if any
-    if (messageSubscription && supabase) {
-      supabase.removeChannel(messageSubscription);
-    }
-    
-    // Subscribe to message changes for current chat
-    if (currentChat && supabase) {
-      const subscription = supabase
-        .channel(`messages:${currentChat.id}`)
-        .on('postgres_changes', { 
-          event: 'INSERT', 
-          schema: 'public', 
-          table: 'messages',
-          filter: `chat_id=eq.${currentChat.id}`
-        }, (payload) => {
-          setMessages(prev => [...prev, payload.new as Message]);
-        })
-        .subscribe();
-        
-      setMessageSubscription(subscription);
+    return backend.realtime.onMessageChange(currentChat.id, (change) => {
+      if (change.event === 'INSERT' && change.new) {
+        const inserted = change.new as Message;
+        clearTyping(inserted.chat_id, inserted.sender_id);
+        confirmOutgoing(inserted);
+        // Thread replies only show up in the thread panel
+        if (!inserted.thread_root_id) {
+          setMessages(prev => mergeMessage(prev, inserted));
+        }
+      } else if (change.event === 'UPDATE' && change.new) {
+        // Edits and deletions for everyone
+        const updated = change.new;
+        setMessages(prev => replaceMessage(prev, updated));
+      } else if (change.event === 'DELETE' && change.old?.id) {
+        const removedId = change.old.id;
+        setMessages(prev => prev.filter(message => message.id !== removedId));
+      }
+    });
+  }, [currentChat, clearTyping, confirmOutgoing, outgoingFor]);
+
+  const loadOlderMessages = useCallback(async () => {
+    if (!currentChat || !hasOlderMessages || loadingOlderMessages || messages.length === 0) return;
+
+    const chatId = currentChat.id;
+    setLoadingOlderMessages(true);
+    try {
+      const page = await fetchChatMessages(chatId, { before: toMessageCursor(messages[0]) });
+      if (currentChatIdRef.current !== chatId) return;
+      setMessages(prev => [...page.messages, ...prev]);
+      setHasOlderMessages(page.hasMore);
+    } finally {
+      if (currentChatIdRef.current === chatId) {
+        setLoadingOlderMessages(false);
+      }
     }
-    
-    return () => {
-      if (messageSubscription && supabase) {
-        supabase.removeChannel(messageSubscription);
+  }, [currentChat, hasOlderMessages, loadingOlderMessages, messages]);
+
+  // Pages in older history until the message is loaded; resolves to whether it was found
+  const revealMessage = useCallback(async (messageId: string) => {
+    if (messages.some(message => message.id === messageId)) return true;
+    if (!currentChat || !hasOlderMessages || loadingOlderMessages || messages.length === 0) return false;
+
+    const chatId = currentChat.id;
+    let older: Message[] = [];
+    let hasMore: boolean = hasOlderMessages;
+    let found = false;
+    setLoadingOlderMessages(true);
+    try {
+      while (hasMore && !found) {
+        const oldest = older[0] ?? messages[0];
+        const page = await fetchChatMessages(chatId, { before: toMessageCursor(oldest) });
+        if (currentChatIdRef.current !== chatId) return false;
+        older = [...page.messages, ...older];
+        hasMore = page.hasMore && page.messages.length > 0;
+        found = page.messages.some(message => message.id === messageId);
       }
-    };
-  }, [currentChat, initialized]);
+      setMessages(prev => [...older, ...prev]);
+      setHasOlderMessages(hasMore);
+      return found;
+    } finally {
+      if (currentChatIdRef.current === chatId) {
+        setLoadingOlderMessages(false);
+      }
+    }
+  }, [currentChat, hasOlderMessages, loadingOlderMessages, messages]);
+
+  const openMessage = useCallback((message: Message) => {
+    const chat = chats.find(candidate => candidate.id === message.chat_id);
+    if (!chat) return;
+
+    // Reselecting the open chat would reload it
+    if (currentChatIdRef.current !== chat.id) setCurrentChat(chat);
+    setJumpTarget({ chatId: chat.id, messageId: message.thread_root_id ?? message.id });
+  }, [chats]);
 
-  const sendMessage = async (content: string, attachment?: File) => {
-    if (!currentChat || !user || !initialized) {
+  const clearJumpTarget = useCallback(() => setJumpTarget(null), []);
+
+  // Queues the message (persisted while offline) and shows it immediately;
+  // the server row replaces it by id. Quotes the message in the reply bar, if any.
+  const sendMessage = async (content: string, attachment?: File, mentions?: string[]) => {
+    if (!currentChat || !user) {
       toast.error("Chat functionality unavailable");
       return;
     }
     
+    stopTyping(currentChat.id);
+    setReplyingTo(null);
+
+    await outbox.enqueue({
+      id: crypto.randomUUID(),
+      chat_id: currentChat.id,
+      sender_id: user.id,
+      content,
+      created_at: new Date().toISOString(),
+      reply_to_id: replyingTo?.id,
+      mentions,
+      attachment,
+    });
+  };
+
+  // Same as sendMessage, into the open thread
+  const sendThreadReply = async (content: string, attachment?: File) => {
+    const root = thread.threadRoot;
+    if (!root || !user) {
+      toast.error("Chat functionality unavailable");
+      return;
+    }
+
+    await outbox.enqueue({
+      id: crypto.randomUUID(),
+      chat_id: root.chat_id,
+      sender_id: user.id,
+      content,
+      created_at: new Date().toISOString(),
+      thread_root_id: root.id,
+      attachment,
+    });
+  };
+
+  const editMessage = useCallback(async (messageId: string, content: string) => {
     try {
-      await sendChatMessage(currentChat.id, user.id, content, attachment);
+      const updated = await editChatMessage(messageId, content);
+      setMessages(prev => replaceMessage(prev, updated));
+      applyThreadMessage(updated);
     } catch (error) {
-      console.error('Error sending message:', error);
-      toast.error('Failed to send message');
+      console.error('Error editing message:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to edit message');
     }
-  };
+  }, [applyThreadMessage]);
+
+  const deleteMessage = useCallback(async (messageId: string, scope: 'everyone' | 'me') => {
+    if (!user) return;
+
+    try {
+      const deleted = await deleteChatMessage(messageId, user.id, scope);
+      if (deleted) {
+        setMessages(prev => replaceMessage(prev, deleted));
+        applyThreadMessage(deleted);
+        return;
+      }
+
+      // Hidden for me: it may have been the sidebar preview
+      const removed = messages.find(message => message.id === messageId);
+      setMessages(prev => prev.filter(message => message.id !== messageId));
+      removeThreadMessage(messageId);
+      if (removed) {
+        const updatedChat = await fetchChatSummary(removed.chat_id, user.id);
+        if (updatedChat) {
+          setChats(prev => upsertChat(prev, updatedChat));
+          setFilteredChats(prev => upsertChat(prev, updatedChat));
+        }
+      }
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete message');
+    }
+  }, [user, messages, applyThreadMessage, removeThreadMessage]);
 
   const filterChats = useCallback((query: string) => {
     if (!query.trim()) {
@@ -202,11 +533,11 @@ export const ChatsProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
     
     const filtered = chats.filter(chat => 
-      chat.name?.toLowerCase().includes(query.toLowerCase())
+      getChatDisplayName(chat, users, user?.id).toLowerCase().includes(query.toLowerCase())
     );
     
     setFilteredChats(filtered);
-  }, [chats]);
+  }, [chats, users, user?.id]);
 
   return (
     <ChatsContext.Provider 
@@ -216,8 +547,77 @@ export const ChatsProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         currentChat, 
         setCurrentChat, 
         messages, 
+        receipts,
+        reactions,
+        toggleReaction,
+        hasOlderMessages,
+        loadingOlderMessages,
+        loadOlderMessages,
+        revealMessage,
+        openMessage,
+        jumpTarget,
+        clearJumpTarget,
+        findOpen: find.findOpen,
+        findQuery: find.findQuery,
+        setFindQuery: find.setFindQuery,
+        findMatchIds: find.findMatchIds,
+        findMatchCount: find.findMatchCount,
+        findIndex: find.findIndex,
+        activeFindMatchId: find.activeFindMatchId,
+        findLoading: find.findLoading,
+        openFind: find.openFind,
+        closeFind: find.closeFind,
+        findPrevious: find.findPrevious,
+        findNext: find.findNext,
+        quotedMessages,
+        replyingTo,
+        setReplyingTo,
+        markChatRead,
+        markChatUnread,
+        assignChat,
+        labels,
+        createLabel,
+        updateLabel,
+        deleteLabel,
+        updateChatLabels,
+        chatTypes,
+        createType,
+        updateType,
+        deleteType,
+        reorderTypes,
+        changeChatType,
+        startDirectChat,
+        createGroup,
+        groupMembers: group.members,
+        addGroupMembers: group.addMembers,
+        removeGroupMember: group.removeMember,
+        setGroupMemberRole: group.setMemberRole,
+        renameGroup: group.renameGroup,
+        leaveGroup,
+        savedFilters,
+        saveFilter,
+        updateFilter,
+        deleteFilter,
+        typingByChat,
+        onlineUserIds,
+        notifyTyping,
+        stopTyping,
         users,
+        directory,
         sendMessage, 
+        threadRoot: thread.threadRoot,
+        threadMessages: thread.threadMessages,
+        hasOlderThreadMessages: thread.hasOlderThreadMessages,
+        loadingThread: thread.loadingThread,
+        loadOlderThreadMessages: thread.loadOlderThreadMessages,
+        openThread: thread.openThread,
+        closeThread: thread.closeThread,
+        sendThreadReply,
+        editMessage,
+        deleteMessage,
+        loadMessageEdits: fetchMessageEdits,
+        retryMessage: outbox.retry,
+        discardMessage: outbox.discard,
         loading,
         filterChats
       }}
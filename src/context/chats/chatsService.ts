@@ -1,185 +1,263 @@
-import { createClient } from '@supabase/supabase-js';
-import { Chat, Message } from '@/types/chat';
-import { toast } from '@/components/ui/sonner';
-
-// Default to empty strings for development/testing
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
-
-// Initialize Supabase client
-export const supabase = (supabaseUrl && supabaseAnonKey) 
-  ? createClient(supabaseUrl, supabaseAnonKey)
-  : null;
-
-// Log warning for missing credentials
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.warn("Supabase credentials missing. Some features will be unavailable.");
-}
-
-export const fetchUsers = async () => {
-  if (!supabase) {
-    console.warn("Supabase client is not initialized");
-    return [];
-  }
-  
+import { backend } from '@/lib/backend';
+import type { MessageCursor, MessageFindResult, MessagePage, NewGroupChat, MessagePageOptions, MessageSearchHit, MessageSearchQuery } from '@/lib/backend';
+import { Chat, ChatLabel, ChatMember, ChatType, DirectoryUser, Message, MessageEdit, MessageReaction, MessageReceipt, SavedFilter, User } from '@/types/chat';
+
+export const fetchUsers = async (): Promise<User[]> => {
   try {
-    const { data, error } = await supabase
-      .from('users')
-      .select('*');
-      
-    if (error) throw error;
-    
-    return data || [];
+    return await backend.users.list();
   } catch (error) {
     console.error("Error fetching users:", error);
     return [];
   }
 };
 
-export const fetchUserChats = async (userId: string) => {
-  if (!supabase) {
-    console.warn("Supabase client is not initialized");
+export const fetchUserDirectory = async (): Promise<DirectoryUser[]> => {
+  try {
+    return await backend.users.directory();
+  } catch (error) {
+    console.error("Error fetching user directory:", error);
     return [];
   }
-  
+};
+
+export const fetchUserChats = async (userId: string): Promise<Chat[]> => {
   try {
-    // Get all chats where the current user is a member
-    const { data: chatMembers, error: chatMembersError } = await supabase
-      .from('chat_members')
-      .select('chat_id')
-      .eq('user_id', userId);
-      
-    if (chatMembersError) throw chatMembersError;
-    
-    if (!chatMembers || chatMembers.length === 0) {
-      return [];
-    }
-    
-    const chatIds = chatMembers.map(member => member.chat_id);
-    
-    // Fetch chats
-    const { data: chatsData, error: chatsError } = await supabase
-      .from('chats')
-      .select('*')
-      .in('id', chatIds)
-      .order('updated_at', { ascending: false });
-      
-    if (chatsError) throw chatsError;
-    
-    if (!chatsData) {
-      return [];
-    }
-    
-    // Fetch last message for each chat
-    const chatsWithLastMessage = await Promise.all(
-      chatsData.map(async (chat) => {
-        const { data: lastMessageData } = await supabase
-          .from('messages')
-          .select('*')
-          .eq('chat_id', chat.id)
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .single();
-          
-        return {
-          ...chat,
-          last_message: lastMessageData || undefined
-        };
-      })
-    );
-    
-    return chatsWithLastMessage;
+    return await backend.chats.listForUser(userId);
   } catch (error) {
     console.error("Error fetching chats:", error);
     return [];
   }
 };
 
-export const fetchChatMessages = async (chatId: string) => {
-  if (!supabase) {
-    console.warn("Supabase client is not initialized");
+// Resolves to null when the user is not a member of the chat
+export const fetchChatSummary = async (chatId: string, userId: string): Promise<Chat | null> => {
+  try {
+    return await backend.chats.get(chatId, userId);
+  } catch (error) {
+    console.error("Error fetching chat:", error);
+    return null;
+  }
+};
+
+export const setChatAssignee = (chatId: string, userId: string | null) =>
+  backend.chats.assign(chatId, userId);
+
+export const applyChatLabels = (chatIds: string[], add: string[], remove: string[]) =>
+  backend.chats.updateLabels(chatIds, add, remove);
+
+export const fetchLabels = async (): Promise<ChatLabel[]> => {
+  try {
+    return await backend.labels.list();
+  } catch (error) {
+    console.error("Error fetching labels:", error);
+    return [];
+  }
+};
+
+export const createChatLabel = (label: Pick<ChatLabel, 'name' | 'color' | 'created_by'>) =>
+  backend.labels.create(label);
+
+export const updateChatLabel = (labelId: string, patch: Partial<Pick<ChatLabel, 'name' | 'color'>>) =>
+  backend.labels.update(labelId, patch);
+
+export const deleteChatLabel = (labelId: string) =>
+  backend.labels.remove(labelId);
+
+export const openDirectChat = (userId: string) =>
+  backend.chats.openDirect(userId);
+
+export const createGroupChat = (group: NewGroupChat) =>
+  backend.chats.createGroup(group);
+
+export const renameChat = (chatId: string, name: string) =>
+  backend.chats.rename(chatId, name);
+
+export const fetchChatMembers = async (chatId: string): Promise<ChatMember[]> => {
+  try {
+    return await backend.members.list(chatId);
+  } catch (error) {
+    console.error("Error fetching chat members:", error);
+    return [];
+  }
+};
+
+export const addChatMembers = (chatId: string, userIds: string[]) =>
+  backend.members.add(chatId, userIds);
+
+export const removeChatMember = (chatId: string, userId: string) =>
+  backend.members.remove(chatId, userId);
+
+export const setChatMemberRole = (chatId: string, userId: string, role: NonNullable<ChatMember['role']>) =>
+  backend.members.setRole(chatId, userId, role);
+
+export const setChatType = (chatId: string, typeId: string | null) =>
+  backend.chats.setType(chatId, typeId);
+
+export const fetchChatTypes = async (): Promise<ChatType[]> => {
+  try {
+    return await backend.chatTypes.list();
+  } catch (error) {
+    console.error("Error fetching chat types:", error);
     return [];
   }
-  
+};
+
+export const createChatType = (chatType: Pick<ChatType, 'name' | 'color' | 'icon' | 'position'>) =>
+  backend.chatTypes.create(chatType);
+
+export const updateChatType = (typeId: string, patch: Partial<Pick<ChatType, 'name' | 'color' | 'icon' | 'position'>>) =>
+  backend.chatTypes.update(typeId, patch);
+
+export const deleteChatType = (typeId: string) =>
+  backend.chatTypes.remove(typeId);
+
+export const fetchSavedFilters = async (userId: string): Promise<SavedFilter[]> => {
   try {
-    const { data, error } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('chat_id', chatId)
-      .order('created_at', { ascending: true });
-      
-    if (error) throw error;
-    
-    return data || [];
+    return await backend.savedFilters.list(userId);
+  } catch (error) {
+    console.error("Error fetching saved filters:", error);
+    return [];
+  }
+};
+
+export const createSavedFilter = (filter: Omit<SavedFilter, 'id' | 'created_at'>) =>
+  backend.savedFilters.create(filter);
+
+export const updateSavedFilter = (
+  filterId: string,
+  patch: Partial<Pick<SavedFilter, 'name' | 'definition' | 'position'>>
+) => backend.savedFilters.update(filterId, patch);
+
+export const deleteSavedFilter = (filterId: string) =>
+  backend.savedFilters.remove(filterId);
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+export const toMessageCursor = (message: Message): MessageCursor => ({
+  created_at: message.created_at,
+  id: message.id,
+});
+
+// Loads the newest page of a chat (or of a thread), or the page just before/after a cursor
+export const fetchChatMessages = async (
+  chatId: string,
+  options: Omit<MessagePageOptions, 'limit'> = {}
+): Promise<MessagePage> => {
+  try {
+    return await backend.messages.list(chatId, { ...options, limit: MESSAGE_PAGE_SIZE });
+  } catch (error) {
+    console.error("Error fetching messages:", error);
+    return { messages: [], hasMore: false };
+  }
+};
+
+export const fetchMessagesByIds = async (messageIds: string[]): Promise<Message[]> => {
+  try {
+    return await backend.messages.getMany(messageIds);
   } catch (error) {
     console.error("Error fetching messages:", error);
     return [];
   }
 };
 
-export const sendChatMessage = async (chatId: string, userId: string, content: string, attachment?: File) => {
-  if (!supabase) {
-    toast.error("Supabase client is not initialized");
-    throw new Error("Supabase client is not initialized");
+export const fetchReceipts = async (messageIds: string[]): Promise<MessageReceipt[]> => {
+  try {
+    return await backend.receipts.list(messageIds);
+  } catch (error) {
+    console.error("Error fetching receipts:", error);
+    return [];
   }
-  
-  let attachmentUrl;
-  let attachmentType;
-  
-  // Upload attachment if any
+};
+
+// Tells senders their messages reached this client
+export const markMessagesDelivered = async (userId: string, chatId?: string) => {
+  try {
+    await backend.receipts.markDelivered(userId, chatId);
+  } catch (error) {
+    console.error("Error marking messages delivered:", error);
+  }
+};
+
+export const searchMessages = (query: MessageSearchQuery): Promise<MessageSearchHit[]> =>
+  backend.messages.search(query);
+
+export const findChatMessages = (chatId: string, text: string, limit: number): Promise<MessageFindResult> =>
+  backend.messages.find(chatId, text, limit);
+
+export const fetchReactions = async (messageIds: string[]): Promise<MessageReaction[]> => {
+  try {
+    return await backend.reactions.list(messageIds);
+  } catch (error) {
+    console.error("Error fetching reactions:", error);
+    return [];
+  }
+};
+
+export const addReaction = (reaction: Omit<MessageReaction, 'created_at'>) =>
+  backend.reactions.add(reaction);
+
+export const removeReaction = (messageId: string, userId: string, emoji: string) =>
+  backend.reactions.remove(messageId, userId, emoji);
+
+export type MessageDraft = Pick<Message, 'id' | 'chat_id' | 'sender_id' | 'content' | 'reply_to_id' | 'thread_root_id' | 'mentions'>;
+
+// Safe to call again with the same draft: the id makes the insert idempotent
+export const sendChatMessage = async (draft: MessageDraft, attachment?: File) => {
+  let attachmentPath;
+  let attachmentType: Message['attachment_type'];
+
+  // Upload attachment if any; it is stored under the chat so access follows membership
   if (attachment) {
     const fileExt = attachment.name.split('.').pop();
-    const fileName = `${Date.now()}.${fileExt}`;
-    const filePath = `${userId}/${fileName}`;
-    
-    const { data: uploadData, error: uploadError } = await supabase
-      .storage
-      .from('attachments')
-      .upload(filePath, attachment);
-      
-    if (uploadError) throw uploadError;
-    
-    if (uploadData) {
-      const { data: { publicUrl } } = supabase
-        .storage
-        .from('attachments')
-        .getPublicUrl(filePath);
-        
-      attachmentUrl = publicUrl;
-      
-      if (attachment.type.includes('image')) {
-        attachmentType = 'image';
-      } else if (attachment.type.includes('video')) {
-        attachmentType = 'video';
-      } else {
-        attachmentType = 'document';
-      }
-    }
-  }
-  
-  // Insert message
-  const { data: newMessage, error } = await supabase
-    .from('messages')
-    .insert({
-      chat_id: chatId,
-      sender_id: userId,
-      content,
-      attachment_url: attachmentUrl,
-      attachment_type: attachmentType,
-      created_at: new Date().toISOString()
-    })
-    .select()
-    .single();
-    
-  if (error) throw error;
-  
-  // Update chat's last_message and updated_at
-  await supabase
-    .from('chats')
-    .update({
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', chatId);
-
-  return newMessage;
+    const fileName = `${draft.id}.${fileExt}`;
+    const filePath = `${draft.chat_id}/${fileName}`;
+
+    const uploaded = await backend.storage.upload(filePath, attachment);
+    attachmentPath = uploaded.path;
+    attachmentType = getAttachmentType(attachment);
+  }
+
+  // The chat's last message and ordering are updated server-side
+  return backend.messages.insert({
+    ...draft,
+    attachment_url: attachmentPath,
+    attachment_type: attachmentType,
+  });
+};
+
+export const editChatMessage = (messageId: string, content: string) => 
+  backend.messages.update(messageId, content);
+
+// "everyone" leaves a tombstone in the chat; "me" only hides it for this user
+export const deleteChatMessage = async (
+  messageId: string, 
+  userId: string, 
+  scope: 'everyone' | 'me'
+): Promise<Message | null> => {
+  if (scope === 'everyone') {
+    return backend.messages.remove(messageId);
+  }
+  await backend.messages.hide(messageId, userId);
+  return null;
+};
+
+export const fetchMessageEdits = async (messageId: string): Promise<MessageEdit[]> => {
+  try {
+    return await backend.messages.listEdits(messageId);
+  } catch (error) {
+    console.error("Error fetching message history:", error);
+    return [];
+  }
+};
+
+export const createAttachmentUrl = (path: string, expiresIn: number) =>
+  backend.storage.createSignedUrl(path, expiresIn);
+
+export const getAttachmentType = (file: File): Message['attachment_type'] => {
+  if (file.type.includes('image')) {
+    return 'image';
+  } else if (file.type.includes('video')) {
+    return 'video';
+  }
+  return 'document';
 };
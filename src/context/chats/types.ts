@@ -1,13 +1,121 @@
 
-import { Chat, Message, User } from '@/types/chat';
+import type { NewGroupChat } from '@/lib/backend';
+import { Chat, ChatFilter, ChatLabel, ChatMember, ChatType, DirectoryUser, Message, MessageEdit, MessageReaction, MessageReceipt, SavedFilter, User } from '@/types/chat';
 
 export interface ChatsContextProps {
   chats: Chat[];
   currentChat: Chat | null;
   messages: Message[];
+  // Receipts of the current user's own messages in the open chat, by message id
+  receipts: Record<string, MessageReceipt[]>;
+  // Reactions on the loaded messages of the open chat, by message id
+  reactions: Record<string, MessageReaction[]>;
+  // Adds the current user's reaction, or removes it if already there
+  toggleReaction: (message: Message, emoji: string) => Promise<void>;
+  hasOlderMessages: boolean;
+  loadingOlderMessages: boolean;
+  loadOlderMessages: () => Promise<void>;
+  // Loads older pages until the message is in `messages`; false if it is gone
+  revealMessage: (messageId: string) => Promise<boolean>;
+  // Opens the message's chat and scrolls to it (thread replies: to their root)
+  openMessage: (message: Message) => void;
+  // Set by openMessage until MessagesList has scrolled to it
+  jumpTarget: { chatId: string; messageId: string } | null;
+  clearJumpTarget: () => void;
+  // Find in the open chat (closed and cleared when switching chats)
+  findOpen: boolean;
+  findQuery: string;
+  setFindQuery: (query: string) => void;
+  // Main timeline messages containing findQuery, oldest first; they may not be
+  // loaded. Only the newest matches are listed when there are very many.
+  findMatchIds: string[];
+  // All matches in the chat, listed or not
+  findMatchCount: number;
+  // Position of the active match in findMatchIds, -1 without matches
+  findIndex: number;
+  activeFindMatchId: string | null;
+  findLoading: boolean;
+  openFind: () => void;
+  closeFind: () => void;
+  // Previous is older, next is newer; both wrap around
+  findPrevious: () => void;
+  findNext: () => void;
+  // Originals quoted by loaded replies that are not loaded themselves, by id
+  quotedMessages: Record<string, Message>;
+  replyingTo: Message | null;
+  setReplyingTo: (message: Message | null) => void;
+  markChatRead: (chatId: string) => Promise<void>;
+  markChatUnread: (chatId: string) => Promise<void>;
+  // Assigns the chat to one of its members; null unassigns
+  assignChat: (chatId: string, userId: string | null) => Promise<void>;
+  // The workspace label catalog, by name
+  labels: ChatLabel[];
+  // Resolves to the new label, or null when it failed (already reported)
+  createLabel: (name: string, color: ChatLabel['color']) => Promise<ChatLabel | null>;
+  // Renames carry over to every chat with the label
+  updateLabel: (labelId: string, patch: Partial<Pick<ChatLabel, 'name' | 'color'>>) => Promise<void>;
+  deleteLabel: (labelId: string) => Promise<void>;
+  // Adds and removes labels (by name) on each of the chats
+  updateChatLabels: (chatIds: string[], add: string[], remove: string[]) => Promise<void>;
+  // The workspace chat type registry, in position order
+  chatTypes: ChatType[];
+  // Resolves to the new type, or null when it failed (already reported)
+  createType: (name: string, color: ChatType['color'], icon: string) => Promise<ChatType | null>;
+  updateType: (typeId: string, patch: Partial<Pick<ChatType, 'name' | 'color' | 'icon'>>) => Promise<void>;
+  // Chats of a deleted type become untyped
+  deleteType: (typeId: string) => Promise<void>;
+  // Every type id, in the new order
+  reorderTypes: (typeIds: string[]) => Promise<void>;
+  // Sets a chat's type; null leaves it untyped
+  changeChatType: (chatId: string, typeId: string | null) => Promise<void>;
+  // Open the chat they resolve to, or resolve to null when it failed (already reported)
+  startDirectChat: (userId: string) => Promise<Chat | null>;
+  createGroup: (group: NewGroupChat) => Promise<Chat | null>;
+  // Members of the open chat when it is a group, with their roles
+  groupMembers: ChatMember[];
+  // Admin actions on the open group; resolve to whether they went through
+  addGroupMembers: (userIds: string[]) => Promise<boolean>;
+  removeGroupMember: (userId: string) => Promise<boolean>;
+  setGroupMemberRole: (userId: string, role: NonNullable<ChatMember['role']>) => Promise<boolean>;
+  renameGroup: (name: string) => Promise<boolean>;
+  // Leaves the group and closes it
+  leaveGroup: (chatId: string) => Promise<void>;
+  // The current user's saved chat list filters, in tab order
+  savedFilters: SavedFilter[];
+  // Resolve to the stored filter, or null when it failed (already reported)
+  saveFilter: (name: string, definition: ChatFilter) => Promise<SavedFilter | null>;
+  updateFilter: (filterId: string, patch: Partial<Pick<SavedFilter, 'name' | 'definition'>>) => Promise<SavedFilter | null>;
+  deleteFilter: (filterId: string) => Promise<void>;
+  // Ids of other users currently typing, by chat id
+  typingByChat: Record<string, string[]>;
+  onlineUserIds: Set<string>;
+  notifyTyping: (chatId: string) => void;
+  stopTyping: (chatId: string) => void;
+  // Full profiles of the current user and their chat partners
   users: User[];
+  // Everyone in the workspace, for starting chats and adding group members
+  directory: DirectoryUser[];
   setCurrentChat: (chat: Chat | null) => void;
-  sendMessage: (content: string, attachment?: File) => Promise<void>;
+  // Mentions are the ids of the users @mentioned in the content
+  sendMessage: (content: string, attachment?: File, mentions?: string[]) => Promise<void>;
+  // The thread open in the side panel and its replies, oldest first
+  threadRoot: Message | null;
+  threadMessages: Message[];
+  hasOlderThreadMessages: boolean;
+  loadingThread: boolean;
+  loadOlderThreadMessages: () => Promise<void>;
+  openThread: (root: Message) => void;
+  closeThread: () => void;
+  sendThreadReply: (content: string, attachment?: File) => Promise<void>;
+  // Sender only, within the edit window (also enforced by the server)
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  // Previous versions of an edited message, oldest first
+  loadMessageEdits: (messageId: string) => Promise<MessageEdit[]>;
+  // "everyone": sender only, within the delete window; "me": any message
+  deleteMessage: (messageId: string, scope: 'everyone' | 'me') => Promise<void>;
+  // Only apply to the current user's failed messages
+  retryMessage: (messageId: string) => Promise<void>;
+  discardMessage: (messageId: string) => void;
   loading: boolean;
   filterChats: (query: string) => void;
   filteredChats: Chat[];
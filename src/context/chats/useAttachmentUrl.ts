@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { createAttachmentUrl } from './chatsService';
+
+// Signed attachment URLs are requested for this long and replaced this much
+// before they run out, so a rendered link or image never points at a dead URL
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+const REFRESH_BEFORE_EXPIRY_MS = 60_000;
+
+interface SignedUrl {
+  url: Promise<string>;
+  expiresAt: number;
+}
+
+// Shared by every mounted attachment, so each file is signed once per lifetime.
+// Signed URLs grant access on their own, so they are only reused for the user
+// they were signed for.
+const signedUrls = new Map<string, SignedUrl>();
+let signedForUserId: string | null = null;
+
+// Outbox messages carry local blob: URLs and older demo data inlined files
+const isResolvedUrl = (attachment: string) => /^(blob|data):/.test(attachment);
+
+// Messages sent while the bucket was public store its permanent URL
+const PUBLIC_URL_PATTERN = /^https?:\/\/[^?#]*\/storage\/v1\/object\/public\/attachments\/([^?#]+)/;
+
+// The storage path to sign for an attachment, or null if it is a plain URL
+const getAttachmentPath = (attachment: string) => {
+  if (isResolvedUrl(attachment)) return null;
+  const legacy = attachment.match(PUBLIC_URL_PATTERN);
+  if (legacy) return decodeURIComponent(legacy[1]);
+  return /^https?:/.test(attachment) ? null : attachment;
+};
+
+const signAttachment = (userId: string, path: string): SignedUrl => {
+  if (signedForUserId !== userId) {
+    signedUrls.clear();
+    signedForUserId = userId;
+  }
+
+  const cached = signedUrls.get(path);
+  if (cached && cached.expiresAt - REFRESH_BEFORE_EXPIRY_MS > Date.now()) return cached;
+
+  // Counted from the request, so the URL is never trusted for longer than it lives
+  const signed: SignedUrl = {
+    url: createAttachmentUrl(path, SIGNED_URL_TTL_SECONDS),
+    expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000,
+  };
+  signed.url.catch(() => {
+    if (signedUrls.get(path) === signed) signedUrls.delete(path);
+  });
+  signedUrls.set(path, signed);
+  return signed;
+};
+
+// A URL the browser can load for a message attachment. url is undefined while
+// it is being signed or when signing failed (failed is set; retry tries again).
+export const useAttachmentUrl = (attachment?: string) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [resolved, setResolved] = useState<{ userId: string; path: string; url: string } | null>(null);
+  const [failedPath, setFailedPath] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const path = attachment ? getAttachmentPath(attachment) : null;
+
+  useEffect(() => {
+    if (!path || !userId) return;
+
+    let cancelled = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    setFailedPath(null);
+
+    const resolve = () => {
+      const signed = signAttachment(userId, path);
+      signed.url
+        .then((url) => {
+          if (cancelled) return;
+          setResolved({ userId, path, url });
+          refreshTimer = setTimeout(resolve, signed.expiresAt - REFRESH_BEFORE_EXPIRY_MS - Date.now());
+        })
+        .catch((error) => {
+          if (cancelled) return;
+          console.error('Error signing attachment URL:', error);
+          setFailedPath(path);
+        });
+    };
+
+    resolve();
+    return () => {
+      cancelled = true;
+      clearTimeout(refreshTimer);
+    };
+  }, [path, userId, attempt]);
+
+  const retry = useCallback(() => setAttempt(count => count + 1), []);
+
+  if (!attachment) return { url: undefined, failed: false, retry };
+  if (!path) return { url: attachment, failed: false, retry };
+  return {
+    url: resolved?.path === path && resolved.userId === userId ? resolved.url : undefined,
+    failed: failedPath === path,
+    retry,
+  };
+};
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import { Chat } from '@/types/chat';
+import { findChatMessages } from './chatsService';
+
+// Wait for a pause in typing before querying the server
+const FIND_DEBOUNCE_MS = 300;
+// The most (newest) matches the server returns for one query; older ones are
+// still counted
+const FIND_MATCH_LIMIT = 200;
+
+// Find in the open chat: the server finds the text anywhere in messages of the
+// main timeline (loaded or not), oldest first, and one of them is active at a time
+export const useChatFind = (currentChat: Chat | null) => {
+  const [findOpen, setFindOpen] = useState(false);
+  const [findQuery, setFindQuery] = useState('');
+  const [findMatchIds, setFindMatchIds] = useState<string[]>([]);
+  const [findMatchCount, setFindMatchCount] = useState(0);
+  const [findIndex, setFindIndex] = useState(-1);
+  const [findLoading, setFindLoading] = useState(false);
+  // Guards against results arriving after the chat was switched
+  const chatIdRef = useRef<string | null>(null);
+  const chatId = currentChat?.id;
+
+  // Find belongs to the open chat
+  useEffect(() => {
+    chatIdRef.current = chatId ?? null;
+    setFindOpen(false);
+    setFindQuery('');
+  }, [chatId]);
+
+  useEffect(() => {
+    const text = findQuery.trim();
+    if (!findOpen || !chatId || !text) {
+      setFindMatchIds([]);
+      setFindMatchCount(0);
+      setFindIndex(-1);
+      setFindLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setFindLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const { messageIds, total } = await findChatMessages(chatId, text, FIND_MATCH_LIMIT);
+        if (cancelled || chatIdRef.current !== chatId) return;
+        setFindMatchIds(messageIds);
+        setFindMatchCount(total);
+        // Start from the most recent match, like reading the chat upwards
+        setFindIndex(messageIds.length - 1);
+      } catch (error) {
+        console.error('Error finding in chat:', error);
+        if (!cancelled) toast.error('Find failed');
+      } finally {
+        if (!cancelled) setFindLoading(false);
+      }
+    }, FIND_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [findOpen, findQuery, chatId]);
+
+  const openFind = useCallback(() => setFindOpen(true), []);
+
+  const closeFind = useCallback(() => {
+    setFindOpen(false);
+    setFindQuery('');
+  }, []);
+
+  // Previous is the next older match; both wrap around
+  const findPrevious = useCallback(() => {
+    setFindIndex(index => (findMatchIds.length === 0 ? -1 : (index - 1 + findMatchIds.length) % findMatchIds.length));
+  }, [findMatchIds.length]);
+
+  const findNext = useCallback(() => {
+    setFindIndex(index => (findMatchIds.length === 0 ? -1 : (index + 1) % findMatchIds.length));
+  }, [findMatchIds.length]);
+
+  return {
+    findOpen,
+    findQuery,
+    setFindQuery,
+    findMatchIds,
+    findMatchCount,
+    findIndex,
+    activeFindMatchId: findMatchIds[findIndex] ?? null,
+    findLoading,
+    openFind,
+    closeFind,
+    findPrevious,
+    findNext,
+  };
+};
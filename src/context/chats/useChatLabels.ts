@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import { backend } from '@/lib/backend';
+import type { AuthUser } from '@/lib/backend';
+import { ChatLabel } from '@/types/chat';
+import { createChatLabel, deleteChatLabel, fetchLabels, updateChatLabel } from './chatsService';
+
+const byName = (a: ChatLabel, b: ChatLabel) => a.name.localeCompare(b.name);
+
+const upsertLabel = (labels: ChatLabel[], label: ChatLabel) =>
+  [...labels.filter(existing => existing.id !== label.id), label].sort(byName);
+
+// The workspace label catalog, kept live. Chats pick up renames and removals
+// through their own realtime updates.
+export const useChatLabels = (user: AuthUser | null) => {
+  const [labels, setLabels] = useState<ChatLabel[]>([]);
+
+  useEffect(() => {
+    setLabels([]);
+    if (!user) return;
+
+    let cancelled = false;
+    fetchLabels().then((catalog) => {
+      if (!cancelled) setLabels(catalog);
+    });
+
+    const unsubscribe = backend.realtime.onLabelChange((change) => {
+      if (change.event === 'DELETE') {
+        const removedId = change.old?.id;
+        if (removedId) setLabels(prev => prev.filter(label => label.id !== removedId));
+      } else if (change.new) {
+        setLabels(prev => upsertLabel(prev, change.new!));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [user]);
+
+  const createLabel = useCallback(async (name: string, color: ChatLabel['color']) => {
+    if (!user) return null;
+
+    try {
+      const created = await createChatLabel({ name: name.trim(), color, created_by: user.id });
+      setLabels(prev => upsertLabel(prev, created));
+      return created;
+    } catch (error) {
+      console.error('Error creating label:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create label');
+      return null;
+    }
+  }, [user]);
+
+  const updateLabel = useCallback(async (labelId: string, patch: Partial<Pick<ChatLabel, 'name' | 'color'>>) => {
+    try {
+      const updated = await updateChatLabel(labelId, patch.name ? { ...patch, name: patch.name.trim() } : patch);
+      setLabels(prev => upsertLabel(prev, updated));
+    } catch (error) {
+      console.error('Error updating label:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update label');
+    }
+  }, []);
+
+  const deleteLabel = useCallback(async (labelId: string) => {
+    try {
+      await deleteChatLabel(labelId);
+      setLabels(prev => prev.filter(label => label.id !== labelId));
+    } catch (error) {
+      console.error('Error deleting label:', error);
+      toast.error('Failed to delete label');
+    }
+  }, []);
+
+  return { labels, createLabel, updateLabel, deleteLabel };
+};
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import { backend } from '@/lib/backend';
+import type { AuthUser } from '@/lib/backend';
+import { ChatType } from '@/types/chat';
+import { createChatType, deleteChatType, fetchChatTypes, updateChatType } from './chatsService';
+
+type ChatTypePatch = Partial<Pick<ChatType, 'name' | 'color' | 'icon'>>;
+
+const byPosition = (a: ChatType, b: ChatType) => a.position - b.position || a.name.localeCompare(b.name);
+
+const upsertType = (chatTypes: ChatType[], chatType: ChatType) =>
+  [...chatTypes.filter(existing => existing.id !== chatType.id), chatType].sort(byPosition);
+
+// The workspace chat type registry, kept live. Chats left untyped by a deletion
+// arrive through their own realtime updates.
+export const useChatTypes = (user: AuthUser | null) => {
+  const [chatTypes, setChatTypes] = useState<ChatType[]>([]);
+
+  useEffect(() => {
+    setChatTypes([]);
+    if (!user) return;
+
+    let cancelled = false;
+    fetchChatTypes().then((registry) => {
+      if (!cancelled) setChatTypes(registry);
+    });
+
+    const unsubscribe = backend.realtime.onChatTypeChange((change) => {
+      if (change.event === 'DELETE') {
+        const removedId = change.old?.id;
+        if (removedId) setChatTypes(prev => prev.filter(chatType => chatType.id !== removedId));
+      } else if (change.new) {
+        setChatTypes(prev => upsertType(prev, change.new!));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [user]);
+
+  // New types go last; resolves to null when creating failed
+  const createType = useCallback(async (name: string, color: ChatType['color'], icon: string) => {
+    try {
+      const created = await createChatType({
+        name: name.trim(),
+        color,
+        icon,
+        position: chatTypes.reduce((max, chatType) => Math.max(max, chatType.position + 1), 0),
+      });
+      setChatTypes(prev => upsertType(prev, created));
+      return created;
+    } catch (error) {
+      console.error('Error creating chat type:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create chat type');
+      return null;
+    }
+  }, [chatTypes]);
+
+  const updateType = useCallback(async (typeId: string, patch: ChatTypePatch) => {
+    try {
+      const updated = await updateChatType(typeId, patch.name ? { ...patch, name: patch.name.trim() } : patch);
+      setChatTypes(prev => upsertType(prev, updated));
+    } catch (error) {
+      console.error('Error updating chat type:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update chat type');
+    }
+  }, []);
+
+  const deleteType = useCallback(async (typeId: string) => {
+    try {
+      await deleteChatType(typeId);
+      setChatTypes(prev => prev.filter(chatType => chatType.id !== typeId));
+    } catch (error) {
+      console.error('Error deleting chat type:', error);
+      toast.error('Failed to delete chat type');
+    }
+  }, []);
+
+  // Stores the given order as positions 0..n-1, writing only the types that moved
+  const reorderTypes = useCallback(async (typeIds: string[]) => {
+    const previous = chatTypes;
+    const moved = typeIds.filter((typeId, position) =>
+      previous.find(chatType => chatType.id === typeId)?.position !== position
+    );
+    setChatTypes(prev => prev
+      .map(chatType => ({ ...chatType, position: typeIds.indexOf(chatType.id) }))
+      .sort(byPosition));
+    try {
+      await Promise.all(moved.map(typeId => updateChatType(typeId, { position: typeIds.indexOf(typeId) })));
+    } catch (error) {
+      console.error('Error reordering chat types:', error);
+      toast.error('Failed to reorder chat types');
+      setChatTypes(previous);
+    }
+  }, [chatTypes]);
+
+  return { chatTypes, createType, updateType, deleteType, reorderTypes };
+};
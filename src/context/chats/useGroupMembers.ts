@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import { Chat, ChatMember } from '@/types/chat';
+import { addChatMembers, fetchChatMembers, removeChatMember, renameChat, setChatMemberRole } from './chatsService';
+
+// Members (with roles) of the open group chat, and the admin actions on them.
+// Reloads when the member list of the chat summary changes, e.g. over realtime.
+export const useGroupMembers = (chat: Chat | null) => {
+  const [members, setMembers] = useState<ChatMember[]>([]);
+  const chatId = chat?.is_group ? chat.id : null;
+  const memberKey = chat?.member_ids?.join(',') ?? '';
+
+  const reload = useCallback(async () => {
+    if (!chatId) return;
+    const rows = await fetchChatMembers(chatId);
+    setMembers(rows);
+  }, [chatId]);
+
+  useEffect(() => {
+    setMembers([]);
+    if (!chatId) return;
+
+    let cancelled = false;
+    fetchChatMembers(chatId).then((rows) => {
+      if (!cancelled) setMembers(rows);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId, memberKey]);
+
+  // Each action reports its own failure and resolves to whether it went through
+  const run = useCallback(async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      await reload();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(error instanceof Error ? error.message : failure);
+      return false;
+    }
+  }, [reload]);
+
+  const addMembers = useCallback((userIds: string[]) =>
+    run(() => addChatMembers(chatId!, userIds), 'Failed to add members'), [chatId, run]);
+
+  const removeMember = useCallback((userId: string) =>
+    run(() => removeChatMember(chatId!, userId), 'Failed to remove member'), [chatId, run]);
+
+  const setMemberRole = useCallback((userId: string, role: NonNullable<ChatMember['role']>) =>
+    run(() => setChatMemberRole(chatId!, userId, role), 'Failed to change role'), [chatId, run]);
+
+  const renameGroup = useCallback((name: string) =>
+    run(() => renameChat(chatId!, name.trim()), 'Failed to rename group'), [chatId, run]);
+
+  return { members, addMembers, removeMember, setMemberRole, renameGroup };
+};
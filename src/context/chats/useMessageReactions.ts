@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import { backend } from '@/lib/backend';
+import type { AuthUser } from '@/lib/backend';
+import { Chat, Message, MessageReaction } from '@/types/chat';
+import { addReaction, fetchReactions, removeReaction } from './chatsService';
+
+type ReactionsByMessage = Record<string, MessageReaction[]>;
+
+const sameReaction = (a: Pick<MessageReaction, 'message_id' | 'user_id' | 'emoji'>, b: typeof a) =>
+  a.message_id === b.message_id && a.user_id === b.user_id && a.emoji === b.emoji;
+
+const insertReaction = (reactions: ReactionsByMessage, reaction: MessageReaction): ReactionsByMessage => {
+  const existing = reactions[reaction.message_id] ?? [];
+  if (existing.some(candidate => sameReaction(candidate, reaction))) return reactions;
+  return { ...reactions, [reaction.message_id]: [...existing, reaction] };
+};
+
+const deleteReaction = (
+  reactions: ReactionsByMessage, 
+  reaction: Pick<MessageReaction, 'message_id' | 'user_id' | 'emoji'>
+): ReactionsByMessage => {
+  const existing = reactions[reaction.message_id];
+  if (!existing) return reactions;
+  return { ...reactions, [reaction.message_id]: existing.filter(candidate => !sameReaction(candidate, reaction)) };
+};
+
+// Reactions on the loaded messages of the open chat, kept live
+export const useMessageReactions = (user: AuthUser | null, currentChat: Chat | null, messages: Message[]) => {
+  const [reactions, setReactions] = useState<ReactionsByMessage>({});
+  // Message ids whose reactions were already requested for this chat
+  const requestedRef = useRef(new Set<string>());
+  const chatIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    setReactions({});
+    requestedRef.current = new Set();
+    chatIdRef.current = currentChat?.id ?? null;
+    if (!currentChat) return;
+
+    return backend.realtime.onReactionChange(currentChat.id, (change) => {
+      if (change.event === 'INSERT' && change.new) {
+        setReactions(prev => insertReaction(prev, change.new as MessageReaction));
+      } else if (change.event === 'DELETE' && change.old) {
+        // Deletes from other chats arrive too; they match nothing here
+        setReactions(prev => deleteReaction(prev, change.old as MessageReaction));
+      }
+    });
+  }, [currentChat]);
+
+  // Fetch reactions as pages load
+  useEffect(() => {
+    if (!currentChat) return;
+
+    const missing = messages
+      // Unconfirmed sends cannot have reactions yet
+      .filter(message => !message.status && !requestedRef.current.has(message.id))
+      .map(message => message.id);
+    if (missing.length === 0) return;
+
+    missing.forEach(id => requestedRef.current.add(id));
+    const chatId = currentChat.id;
+    fetchReactions(missing).then((fetched) => {
+      if (chatIdRef.current !== chatId) return;
+      setReactions(prev => fetched.reduce(insertReaction, prev));
+    });
+  }, [currentChat, messages]);
+
+  // Adds the current user's reaction or takes it back, updating the chips right away
+  const toggleReaction = useCallback(async (message: Message, emoji: string) => {
+    if (!user || message.status || message.deleted_at) return;
+
+    const reaction = { message_id: message.id, user_id: user.id, chat_id: message.chat_id, emoji };
+    const reacted = (reactions[message.id] ?? []).some(candidate => sameReaction(candidate, reaction));
+
+    setReactions(prev => reacted ? deleteReaction(prev, reaction) : insertReaction(prev, reaction));
+    try {
+      if (reacted) {
+        await removeReaction(message.id, user.id, emoji);
+      } else {
+        await addReaction(reaction);
+      }
+    } catch (error) {
+      console.error("Error updating reaction:", error);
+      toast.error("Failed to update reaction");
+      setReactions(prev => reacted ? insertReaction(prev, reaction) : deleteReaction(prev, reaction));
+    }
+  }, [user, reactions]);
+
+  return { reactions, toggleReaction };
+};
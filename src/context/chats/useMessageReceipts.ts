@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react';
+import { backend } from '@/lib/backend';
+import type { AuthUser } from '@/lib/backend';
+import { Chat, Message, MessageReceipt } from '@/types/chat';
+import { fetchReceipts } from './chatsService';
+
+type ReceiptsByMessage = Record<string, MessageReceipt[]>;
+
+const upsertReceipt = (receipts: ReceiptsByMessage, receipt: MessageReceipt): ReceiptsByMessage => {
+  const existing = receipts[receipt.message_id] ?? [];
+  return {
+    ...receipts,
+    [receipt.message_id]: [
+      ...existing.filter(candidate => candidate.user_id !== receipt.user_id),
+      receipt,
+    ],
+  };
+};
+
+// Receipts for the current user's own messages in the open chat, kept live
+export const useMessageReceipts = (user: AuthUser | null, currentChat: Chat | null, messages: Message[]) => {
+  const [receipts, setReceipts] = useState<ReceiptsByMessage>({});
+  // Message ids whose receipts were already requested for this chat
+  const requestedRef = useRef(new Set<string>());
+  const chatIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    setReceipts({});
+    requestedRef.current = new Set();
+    chatIdRef.current = currentChat?.id ?? null;
+    if (!currentChat) return;
+
+    return backend.realtime.onReceiptChange(currentChat.id, (change) => {
+      if (change.new) {
+        setReceipts(prev => upsertReceipt(prev, change.new as MessageReceipt));
+      }
+    });
+  }, [currentChat]);
+
+  // Fetch receipts for own messages as pages load
+  useEffect(() => {
+    if (!user || !currentChat) return;
+
+    const missing = messages
+      // Unconfirmed sends have no receipts yet; theirs arrive over realtime
+      .filter(message => message.sender_id === user.id && !message.status && !requestedRef.current.has(message.id))
+      .map(message => message.id);
+    if (missing.length === 0) return;
+
+    missing.forEach(id => requestedRef.current.add(id));
+    const chatId = currentChat.id;
+    fetchReceipts(missing).then((fetched) => {
+      if (chatIdRef.current !== chatId) return;
+      setReceipts(prev => fetched.reduce(upsertReceipt, prev));
+    });
+  }, [user, currentChat, messages]);
+
+  return receipts;
+};
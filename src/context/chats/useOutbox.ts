@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { toast } from '@/components/ui/sonner';
+import type { AuthSession } from '@/lib/backend';
+import {
+  deleteOutboxItem,
+  isOutboxAvailable,
+  listOutboxItems,
+  OutboxItem,
+  putOutboxItem,
+} from '@/lib/outbox';
+import { Message } from '@/types/chat';
+import { getAttachmentType, sendChatMessage } from './chatsService';
+
+interface OutboxEntry {
+  item: OutboxItem;
+  message: Message;
+}
+
+interface OutboxCallbacks {
+  // An outgoing message appeared or changed state
+  onUpdate: (message: Message) => void;
+  // An outgoing message was discarded by the user
+  onRemove: (message: Message) => void;
+}
+
+// Lost connectivity or an expired session: keep the item queued and try later.
+// Anything else (e.g. a rejected insert) needs the user to retry or delete.
+const isRetryableSendError = (error: unknown) => {
+  if (!navigator.onLine || error instanceof TypeError) return true;
+  const { message = '', status, code } = (error ?? {}) as { message?: string; status?: number; code?: string };
+  return status === 401 || code === 'PGRST301' || /fetch|network|jwt/i.test(message);
+};
+
+const persist = (item: OutboxItem) => {
+  if (!isOutboxAvailable()) return Promise.resolve();
+  return putOutboxItem(item).catch(error => console.error('Error saving outbox item:', error));
+};
+
+const toMessage = (item: OutboxItem, status: Message['status']): Message => ({
+  id: item.id,
+  chat_id: item.chat_id,
+  sender_id: item.sender_id,
+  content: item.content,
+  created_at: item.created_at,
+  reply_to_id: item.reply_to_id,
+  thread_root_id: item.thread_root_id,
+  mentions: item.mentions,
+  attachment_url: item.attachment ? URL.createObjectURL(item.attachment) : undefined,
+  attachment_type: item.attachment ? getAttachmentType(item.attachment) : undefined,
+  status,
+});
+
+// Outgoing messages live here until the server confirms them. They are sent
+// strictly in order; while offline they wait in IndexedDB, across reloads.
+export const useOutbox = (session: AuthSession | null, callbacks: OutboxCallbacks) => {
+  const userId = session?.user.id;
+  const entriesRef = useRef(new Map<string, OutboxEntry>());
+  const flushingRef = useRef<Promise<void> | null>(null);
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  const setStatus = useCallback((entry: OutboxEntry, status: Message['status']) => {
+    entry.message = { ...entry.message, status };
+    callbacksRef.current.onUpdate(entry.message);
+  }, []);
+
+  const forget = useCallback((id: string) => {
+    const entry = entriesRef.current.get(id);
+    if (!entry) return undefined;
+
+    entriesRef.current.delete(id);
+    if (entry.message.attachment_url?.startsWith('blob:')) {
+      URL.revokeObjectURL(entry.message.attachment_url);
+    }
+    if (isOutboxAvailable()) {
+      deleteOutboxItem(id).catch(error => console.error('Error removing outbox item:', error));
+    }
+    return entry;
+  }, []);
+
+  // Called with server rows (send responses and realtime echoes)
+  const confirm = useCallback((saved: Message) => {
+    forget(saved.id);
+  }, [forget]);
+
+  const nextQueued = () => [...entriesRef.current.values()]
+    .filter(entry => entry.item.state === 'queued' && entry.message.status !== 'pending')
+    .sort((a, b) => a.item.created_at.localeCompare(b.item.created_at))[0];
+
+  const flush = useCallback((): Promise<void> => {
+    if (flushingRef.current) return flushingRef.current;
+
+    flushingRef.current = (async () => {
+      let entry = nextQueued();
+      while (entry && navigator.onLine) {
+        setStatus(entry, 'pending');
+        const { id, chat_id, sender_id, content, reply_to_id, thread_root_id, mentions, attachment } = entry.item;
+        try {
+          const saved = await sendChatMessage(
+            { id, chat_id, sender_id, content, reply_to_id, thread_root_id, mentions }, 
+            attachment
+          );
+          confirm(saved);
+          callbacksRef.current.onUpdate(saved);
+        } catch (error) {
+          console.error('Error sending message:', error);
+          if (isRetryableSendError(error)) {
+            // Keep order: nothing after this item goes out before it does
+            setStatus(entry, 'queued');
+            break;
+          }
+          toast.error('Failed to send message');
+          entry.item = { ...entry.item, state: 'failed' };
+          await persist(entry.item);
+          setStatus(entry, 'failed');
+        }
+        entry = nextQueued();
+      }
+
+      // Whatever is left waits for connectivity
+      entriesRef.current.forEach(remaining => {
+        if (remaining.item.state === 'queued' && remaining.message.status !== 'queued') {
+          setStatus(remaining, 'queued');
+        }
+      });
+    })().finally(() => {
+      flushingRef.current = null;
+    });
+
+    return flushingRef.current;
+  }, [confirm, setStatus]);
+
+  // Restore what was left unsent in a previous session, then try to send it
+  useEffect(() => {
+    // Items of a previous user stay stored; only their previews are released
+    const entries = entriesRef.current;
+    entries.forEach(entry => {
+      if (entry.message.attachment_url?.startsWith('blob:')) {
+        URL.revokeObjectURL(entry.message.attachment_url);
+      }
+    });
+    entries.clear();
+    if (!userId || !isOutboxAvailable()) return;
+
+    let cancelled = false;
+    listOutboxItems(userId)
+      .then(items => {
+        if (cancelled) return;
+        items.forEach(item => {
+          const message = toMessage(item, item.state === 'failed' ? 'failed' : 'queued');
+          entries.set(item.id, { item, message });
+          callbacksRef.current.onUpdate(message);
+        });
+        flush();
+      })
+      .catch(error => console.error('Error loading outbox:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, flush]);
+
+  // A refreshed session may unblock items that failed authentication
+  useEffect(() => {
+    if (session) flush();
+  }, [session, flush]);
+
+  // Connectivity is back
+  useEffect(() => {
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, [flush]);
+
+  const enqueue = useCallback(async (draft: Omit<OutboxItem, 'state'>) => {
+    const item: OutboxItem = { ...draft, state: 'queued' };
+    const entry = { item, message: toMessage(item, navigator.onLine ? 'pending' : 'queued') };
+    entriesRef.current.set(item.id, entry);
+    callbacksRef.current.onUpdate(entry.message);
+
+    await persist(item);
+    // Flushing marks it pending again; start from queued so it gets picked up
+    entry.message = { ...entry.message, status: 'queued' };
+    await flush();
+  }, [flush]);
+
+  const retry = useCallback(async (id: string) => {
+    const entry = entriesRef.current.get(id);
+    if (!entry || entry.item.state !== 'failed') return;
+
+    entry.item = { ...entry.item, state: 'queued' };
+    await persist(entry.item);
+    setStatus(entry, 'queued');
+    await flush();
+  }, [flush, setStatus]);
+
+  const discard = useCallback((id: string) => {
+    const entry = entriesRef.current.get(id);
+    if (!entry || entry.item.state !== 'failed') return;
+
+    forget(id);
+    callbacksRef.current.onRemove(entry.message);
+  }, [forget]);
+
+  const outgoingFor = useCallback((chatId: string) => [...entriesRef.current.values()]
+    .map(entry => entry.message)
+    .filter(message => message.chat_id === chatId), []);
+
+  return { enqueue, confirm, retry, discard, outgoingFor };
+};
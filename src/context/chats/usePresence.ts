@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { backend } from '@/lib/backend';
+import type { AuthUser } from '@/lib/backend';
+
+// Joins the presence channel for the signed-in user and returns who is online.
+// Online state comes from presence alone; a hidden tab does not count.
+export const usePresence = (user: AuthUser | null) => {
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!user) {
+      setOnlineUserIds(new Set());
+      return;
+    }
+
+    const session = backend.presence.join(user.id, (ids) => setOnlineUserIds(new Set(ids)));
+
+    const handleVisibilityChange = () => {
+      session.setActive(document.visibilityState === 'visible');
+    };
+    handleVisibilityChange();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      session.leave();
+    };
+  }, [user]);
+
+  return onlineUserIds;
+};
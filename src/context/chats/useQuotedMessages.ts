@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from 'react';
+import { Chat, Message } from '@/types/chat';
+import { fetchMessagesByIds } from './chatsService';
+
+// Originals quoted by replies in the open chat that are not among the loaded
+// messages (they sit on older pages), fetched once per chat
+export const useQuotedMessages = (currentChat: Chat | null, messages: Message[]) => {
+  const [quotedMessages, setQuotedMessages] = useState<Record<string, Message>>({});
+  // Quoted ids already requested for this chat
+  const requestedRef = useRef(new Set<string>());
+  const chatIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    setQuotedMessages({});
+    requestedRef.current = new Set();
+    chatIdRef.current = currentChat?.id ?? null;
+  }, [currentChat]);
+
+  useEffect(() => {
+    if (!currentChat) return;
+
+    const loaded = new Set(messages.map(message => message.id));
+    const missing = [...new Set(messages.map(message => message.reply_to_id))]
+      .filter((id): id is string => !!id && !loaded.has(id) && !requestedRef.current.has(id));
+    if (missing.length === 0) return;
+
+    missing.forEach(id => requestedRef.current.add(id));
+    const chatId = currentChat.id;
+    fetchMessagesByIds(missing).then((fetched) => {
+      if (chatIdRef.current !== chatId) return;
+      setQuotedMessages(prev => fetched.reduce(
+        (quoted, message) => ({ ...quoted, [message.id]: message }),
+        prev
+      ));
+    });
+  }, [currentChat, messages]);
+
+  return quotedMessages;
+};
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from '@/components/ui/sonner';
+import type { AuthUser } from '@/lib/backend';
+import { ChatFilter, SavedFilter } from '@/types/chat';
+import { createSavedFilter, deleteSavedFilter, fetchSavedFilters, updateSavedFilter } from './chatsService';
+
+// The current user's saved chat list filters, in tab order
+export const useSavedFilters = (user: AuthUser | null) => {
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
+
+  useEffect(() => {
+    setSavedFilters([]);
+    if (!user) return;
+
+    let cancelled = false;
+    fetchSavedFilters(user.id).then((filters) => {
+      if (!cancelled) setSavedFilters(filters);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // New filters go after the existing tabs; resolves to null when saving failed
+  const saveFilter = useCallback(async (name: string, definition: ChatFilter) => {
+    if (!user) return null;
+
+    try {
+      const saved = await createSavedFilter({
+        user_id: user.id,
+        name: name.trim(),
+        definition,
+        position: savedFilters.reduce((max, filter) => Math.max(max, filter.position + 1), 0),
+      });
+      setSavedFilters(prev => [...prev, saved]);
+      return saved;
+    } catch (error) {
+      console.error('Error saving filter:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save filter');
+      return null;
+    }
+  }, [user, savedFilters]);
+
+  const updateFilter = useCallback(async (
+    filterId: string,
+    patch: Partial<Pick<SavedFilter, 'name' | 'definition'>>
+  ) => {
+    try {
+      const updated = await updateSavedFilter(filterId, patch.name ? { ...patch, name: patch.name.trim() } : patch);
+      setSavedFilters(prev => prev.map(filter => (filter.id === filterId ? updated : filter)));
+      return updated;
+    } catch (error) {
+      console.error('Error updating filter:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update filter');
+      return null;
+    }
+  }, []);
+
+  const deleteFilter = useCallback(async (filterId: string) => {
+    const previous = savedFilters;
+    setSavedFilters(prev => prev.filter(filter => filter.id !== filterId));
+    try {
+      await deleteSavedFilter(filterId);
+    } catch (error) {
+      console.error('Error deleting filter:', error);
+      toast.error('Failed to delete filter');
+      setSavedFilters(previous);
+    }
+  }, [savedFilters]);
+
+  return { savedFilters, saveFilter, updateFilter, deleteFilter };
+};
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { backend } from '@/lib/backend';
+import { mergeMessage, replaceMessage } from '@/lib/chat-utils';
+import { Chat, Message } from '@/types/chat';
+import { fetchChatMessages, toMessageCursor } from './chatsService';
+
+// The thread open next to the current chat: its root, its replies (paged like
+// the main timeline) and a realtime subscription of its own
+export const useThread = (currentChat: Chat | null, outgoingFor: (chatId: string) => Message[]) => {
+  const [threadRoot, setThreadRoot] = useState<Message | null>(null);
+  const [threadMessages, setThreadMessages] = useState<Message[]>([]);
+  const [hasOlderThreadMessages, setHasOlderThreadMessages] = useState(false);
+  const [loadingThread, setLoadingThread] = useState(false);
+  // Guards against pages arriving after the thread was switched or closed
+  const rootIdRef = useRef<string | null>(null);
+  const rootId = threadRoot?.id;
+  const chatId = threadRoot?.chat_id;
+
+  // Threads belong to the open chat
+  useEffect(() => {
+    setThreadRoot(null);
+  }, [currentChat?.id]);
+
+  useEffect(() => {
+    rootIdRef.current = rootId ?? null;
+    setThreadMessages([]);
+    setHasOlderThreadMessages(false);
+    if (!rootId || !chatId) return;
+
+    setLoadingThread(true);
+    fetchChatMessages(chatId, { threadRootId: rootId }).then((page) => {
+      if (rootIdRef.current !== rootId) return;
+      // Unconfirmed replies stay at the end of the thread
+      const outgoing = outgoingFor(chatId).filter(message => message.thread_root_id === rootId);
+      setThreadMessages(outgoing.reduce(mergeMessage, page.messages));
+      setHasOlderThreadMessages(page.hasMore);
+      setLoadingThread(false);
+    });
+
+    return backend.realtime.onMessageChange(chatId, (change) => {
+      if (change.event === 'DELETE') {
+        const removedId = change.old?.id;
+        if (removedId === rootId) {
+          setThreadRoot(null);
+        } else if (removedId) {
+          setThreadMessages(prev => prev.filter(message => message.id !== removedId));
+        }
+        return;
+      }
+
+      const row = change.new;
+      if (!row) return;
+      if (row.id === rootId) {
+        // Edits, deletion and the reply counters of the root
+        setThreadRoot(prev => (prev ? { ...prev, ...row } : prev));
+      } else if (row.thread_root_id === rootId) {
+        setThreadMessages(prev => change.event === 'INSERT' ? mergeMessage(prev, row) : replaceMessage(prev, row));
+      }
+    });
+  }, [rootId, chatId, outgoingFor]);
+
+  const loadOlderThreadMessages = useCallback(async () => {
+    if (!rootId || !chatId || !hasOlderThreadMessages || loadingThread || threadMessages.length === 0) return;
+
+    setLoadingThread(true);
+    try {
+      const page = await fetchChatMessages(chatId, {
+        threadRootId: rootId,
+        before: toMessageCursor(threadMessages[0])
+      });
+      if (rootIdRef.current !== rootId) return;
+      setThreadMessages(prev => [...page.messages, ...prev]);
+      setHasOlderThreadMessages(page.hasMore);
+    } finally {
+      if (rootIdRef.current === rootId) {
+        setLoadingThread(false);
+      }
+    }
+  }, [rootId, chatId, hasOlderThreadMessages, loadingThread, threadMessages]);
+
+  // Outgoing replies (from the outbox) for the open thread
+  const applyThreadMessage = useCallback((message: Message) => {
+    if (message.thread_root_id && message.thread_root_id === rootIdRef.current) {
+      setThreadMessages(prev => mergeMessage(prev, message));
+    }
+  }, []);
+
+  const removeThreadMessage = useCallback((messageId: string) => {
+    setThreadMessages(prev => prev.filter(message => message.id !== messageId));
+  }, []);
+
+  const openThread = useCallback((root: Message) => {
+    setThreadRoot(root);
+  }, []);
+
+  const closeThread = useCallback(() => {
+    setThreadRoot(null);
+  }, []);
+
+  return {
+    threadRoot,
+    threadMessages,
+    hasOlderThreadMessages,
+    loadingThread,
+    loadOlderThreadMessages,
+    openThread,
+    closeThread,
+    applyThreadMessage,
+    removeThreadMessage,
+  };
+};
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { backend } from '@/lib/backend';
+import type { AuthUser } from '@/lib/backend';
+import { Chat } from '@/types/chat';
+
+// Re-announce "typing" at most this often while the user keeps typing
+const TYPING_THROTTLE_MS = 3000;
+// Send "stopped" after this long without keystrokes
+const TYPING_IDLE_MS = 5000;
+// Drop a remote typer we have not heard from in this long (lost stop events)
+const TYPING_EXPIRY_MS = 8000;
+
+type TypingByChat = Record<string, string[]>;
+
+export const useTypingIndicators = (user: AuthUser | null, chats: Chat[]) => {
+  const [typingByChat, setTypingByChat] = useState<TypingByChat>({});
+  const expiryTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const lastSentRef = useRef<{ chatId: string; at: number } | null>(null);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const setTyping = useCallback((chatId: string, userId: string, typing: boolean) => {
+    const key = `${chatId}:${userId}`;
+    const timers = expiryTimersRef.current;
+    clearTimeout(timers.get(key));
+    timers.delete(key);
+
+    if (typing) {
+      timers.set(key, setTimeout(() => setTyping(chatId, userId, false), TYPING_EXPIRY_MS));
+    }
+
+    setTypingByChat(prev => {
+      const current = prev[chatId] ?? [];
+      if (typing === current.includes(userId)) return prev;
+      return {
+        ...prev,
+        [chatId]: typing ? [...current, userId] : current.filter(id => id !== userId),
+      };
+    });
+  }, []);
+
+  // Listen on every chat in the sidebar so previews can show who is typing
+  const chatIds = chats.map(chat => chat.id).join(',');
+  useEffect(() => {
+    if (!user || !chatIds) return;
+
+    const unsubscribes = chatIds.split(',').map(chatId => 
+      backend.realtime.onTyping(chatId, (event) => {
+        if (event.user_id !== user.id) {
+          setTyping(event.chat_id, event.user_id, event.typing);
+        }
+      })
+    );
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [user, chatIds, setTyping]);
+
+  useEffect(() => {
+    const timers = expiryTimersRef.current;
+    return () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  const stopTyping = useCallback((chatId: string) => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+    if (!user || lastSentRef.current?.chatId !== chatId) return;
+
+    lastSentRef.current = null;
+    backend.realtime.sendTyping({ chat_id: chatId, user_id: user.id, typing: false })
+      .catch(error => console.error('Error sending typing state:', error));
+  }, [user]);
+
+  // Call on every keystroke; start events are throttled and a stop follows inactivity
+  const notifyTyping = useCallback((chatId: string) => {
+    if (!user) return;
+
+    const lastSent = lastSentRef.current;
+    if (lastSent && lastSent.chatId !== chatId) {
+      stopTyping(lastSent.chatId);
+    }
+
+    const now = Date.now();
+    if (!lastSentRef.current || now - lastSentRef.current.at >= TYPING_THROTTLE_MS) {
+      lastSentRef.current = { chatId, at: now };
+      backend.realtime.sendTyping({ chat_id: chatId, user_id: user.id, typing: true })
+        .catch(error => console.error('Error sending typing state:', error));
+    }
+
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(() => stopTyping(chatId), TYPING_IDLE_MS);
+  }, [user, stopTyping]);
+
+  // A message from someone ends their typing state immediately
+  const clearTyping = useCallback((chatId: string, userId: string) => {
+    setTyping(chatId, userId, false);
+  }, [setTyping]);
+
+  return { typingByChat, notifyTyping, stopTyping, clearTyping };
+};
@@ -0,0 +1,31 @@
+import { createMemoryBackend } from './memoryBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+import { ChatBackend } from './types';
+
+// Default to empty strings for development/testing
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
+const requestedBackend = import.meta.env.VITE_CHAT_BACKEND as ChatBackend['kind'] | undefined;
+
+const selectBackend = (): ChatBackend => {
+  if (requestedBackend === 'memory') {
+    return createMemoryBackend();
+  }
+
+  if (supabaseUrl && supabaseAnonKey) {
+    return createSupabaseBackend(supabaseUrl, supabaseAnonKey);
+  }
+
+  // Fall back to the offline backend so the UI stays usable without a project
+  console.warn(
+    "Supabase credentials missing. Using the in-memory chat backend; set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to connect to Supabase."
+  );
+  return createMemoryBackend();
+};
+
+export const backend: ChatBackend = selectBackend();
+
+export { createMemoryBackend, createDemoDb } from './memoryBackend';
+export type { MemoryBackendOptions, MemoryDb } from './memoryBackend';
+export { createSupabaseBackend } from './supabaseBackend';
+export type * from './types';
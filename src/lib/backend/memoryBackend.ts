@@ -0,0 +1,1236 @@
+import { Chat, ChatLabel, ChatMember, ChatType, Message, MessageEdit, MessageReaction, MessageReceipt, SavedFilter, User } from '@/types/chat';
+import { 
+  countUnreadMentions, 
+  countUnreadMessages, 
+  isWithinWindow, 
+  MESSAGE_DELETE_WINDOW_MS, 
+  MESSAGE_EDIT_WINDOW_MS 
+} from '@/lib/chat-utils';
+import { HIGHLIGHT_END, HIGHLIGHT_START } from '@/lib/search';
+import { AuthSession, ChatBackend, MessageCursor, RowChange, TypingEvent, Unsubscribe } from './types';
+
+interface HiddenMessage {
+  message_id: string;
+  user_id: string;
+  hidden_at: string;
+}
+
+interface Account {
+  user_id: string;
+  email: string;
+  // Demo backend only: credentials never leave the browser
+  password: string;
+}
+
+// Stands in for an object in the attachments bucket
+interface StoredAttachment {
+  path: string;
+  data_url: string;
+}
+
+export interface MemoryDb {
+  users: User[];
+  chats: Chat[];
+  chat_members: ChatMember[];
+  messages: Message[];
+  message_receipts: MessageReceipt[];
+  message_reactions: MessageReaction[];
+  message_edits: MessageEdit[];
+  hidden_messages: HiddenMessage[];
+  saved_filters: SavedFilter[];
+  labels: ChatLabel[];
+  chat_types: ChatType[];
+  accounts: Account[];
+  attachments: StoredAttachment[];
+}
+
+export interface MemoryBackendOptions {
+  // localStorage key for the shared database; set to null to keep everything in memory
+  storageKey?: string | null;
+  // Populate an empty database with demo users and chats
+  seed?: boolean | ((now: Date) => MemoryDb);
+}
+
+// One realtime topic per table
+type Topic = 'users' | 'chats' | 'chat_members' | 'messages' | 'message_receipts' | 'message_reactions' | 'labels' | 'chat_types';
+
+type AnyChange = RowChange<object>;
+
+interface PresenceSignal {
+  tab_id: string;
+  user_id: string;
+  state: 'join' | 'heartbeat' | 'leave';
+}
+
+type BroadcastPayload =
+  | { topic: Topic; change: AnyChange }
+  | { topic: 'typing'; event: TypingEvent }
+  | { topic: 'presence'; signal: PresenceSignal };
+
+const DEFAULT_STORAGE_KEY = 'chat-canvas:memory-db';
+const SESSION_KEY = 'chat-canvas:memory-session';
+// Tabs announce themselves this often and are considered gone after the timeout
+const PRESENCE_HEARTBEAT_MS = 10_000;
+const PRESENCE_TIMEOUT_MS = 25_000;
+
+const DEFAULT_PAGE_SIZE = 50;
+
+const DUPLICATE_FILTER_NAME = 'You already have a filter with this name';
+const DUPLICATE_LABEL_NAME = 'A label with this name already exists';
+const DUPLICATE_CHAT_TYPE_NAME = 'A chat type with this name already exists';
+
+const compareToCursor = (message: MessageCursor, cursor: MessageCursor) =>
+  message.created_at.localeCompare(cursor.created_at) || message.id.localeCompare(cursor.id);
+
+const emptyDb = (): MemoryDb => ({
+  users: [],
+  chats: [],
+  chat_members: [],
+  messages: [],
+  message_receipts: [],
+  message_reactions: [],
+  message_edits: [],
+  hidden_messages: [],
+  saved_filters: [],
+  labels: [],
+  chat_types: [],
+  accounts: [],
+  attachments: [],
+});
+
+const clone = <T,>(value: T): T => structuredClone(value);
+
+const SNIPPET_LENGTH = 160;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Marks every occurrence of the words and cuts an excerpt around the first one
+const highlightMatches = (content: string, words: string[]) => {
+  const first = Math.min(...words.map(word => content.toLowerCase().indexOf(word)).filter(index => index >= 0));
+  const start = Number.isFinite(first) ? Math.max(0, first - 60) : 0;
+  let excerpt = content.slice(start, start + SNIPPET_LENGTH);
+  if (words.length > 0) {
+    const pattern = new RegExp(words.map(escapeRegExp).join('|'), 'gi');
+    excerpt = excerpt.replace(pattern, match => `${HIGHLIGHT_START}${match}${HIGHLIGHT_END}`);
+  }
+  return `${start > 0 ? '… ' : ''}${excerpt}${start + SNIPPET_LENGTH < content.length ? ' …' : ''}`;
+};
+
+const generateId = () => crypto.randomUUID();
+
+const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// A handful of users and chats so the UI has something to show on first run.
+// Every demo account uses the password "password".
+export const createDemoDb = (now: Date = new Date()): MemoryDb => {
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60_000).toISOString();
+  const db = emptyDb();
+
+  const people = [
+    { email: 'alice@example.com', display_name: 'Alice Johnson' },
+    { email: 'bob@example.com', display_name: 'Bob Smith' },
+    { email: 'carol@example.com', display_name: 'Carol White' },
+  ];
+
+  const [alice, bob, carol] = people.map(person => {
+    const user: User = { id: generateId(), created_at: minutesAgo(60 * 24 * 7), ...person };
+    db.users.push(user);
+    db.accounts.push({ user_id: user.id, email: user.email, password: 'password' });
+    return user;
+  });
+
+  const addChat = (chat: Omit<Chat, 'id' | 'created_at' | 'updated_at'>, members: User[], lines: [User, string, number][]) => {
+    const chatId = generateId();
+    const lastAt = lines.length > 0 ? minutesAgo(lines[lines.length - 1][2]) : minutesAgo(60);
+    const row: Chat = {
+      id: chatId,
+      created_at: minutesAgo(60 * 24 * 7),
+      updated_at: lastAt,
+      member_count: members.length,
+      ...chat,
+    };
+    db.chats.push(row);
+    members.forEach((member, index) => {
+      db.chat_members.push({
+        chat_id: chatId,
+        user_id: member.id,
+        joined_at: minutesAgo(60 * 24 * 7),
+        role: index === 0 ? 'admin' : 'member',
+      });
+    });
+    lines.forEach(([sender, content, ago]) => {
+      db.messages.push({
+        id: generateId(),
+        chat_id: chatId,
+        sender_id: sender.id,
+        content,
+        created_at: minutesAgo(ago),
+      });
+    });
+    // Everyone has read up to their own latest message
+    db.chat_members
+      .filter(member => member.chat_id === chatId)
+      .forEach(member => {
+        const ownLines = lines.filter(([sender]) => sender.id === member.user_id);
+        if (ownLines.length > 0) {
+          member.last_read_at = minutesAgo(ownLines[ownLines.length - 1][2]);
+        }
+      });
+    db.messages
+      .filter(message => message.chat_id === chatId)
+      .forEach(message => {
+        members
+          .filter(member => member.id !== message.sender_id)
+          .forEach(member => {
+            const readAt = db.chat_members.find(
+              candidate => candidate.chat_id === chatId && candidate.user_id === member.id
+            )?.last_read_at;
+            const read = !!readAt && readAt >= message.created_at;
+            db.message_receipts.push({
+              message_id: message.id,
+              user_id: member.id,
+              chat_id: chatId,
+              delivered_at: message.created_at,
+              read_at: read ? readAt : undefined,
+            });
+          });
+      });
+    if (lines.length > 0) {
+      row.last_message_id = db.messages[db.messages.length - 1].id;
+      row.last_message_at = lastAt;
+    }
+  };
+
+  [['Follow up', 'orange'], ['Customer', 'blue'], ['Urgent', 'red']].forEach(([name, color]) => {
+    db.labels.push({ id: generateId(), name, color: color as ChatLabel['color'], created_at: minutesAgo(60 * 24 * 7) });
+  });
+
+  // Same defaults as supabase/schema.sql
+  const [demo, internal] = ([
+    ['demo', 'orange', 'presentation'],
+    ['internal', 'green', 'building'],
+    ['signup', 'blue', 'user-plus'],
+    ['content', 'purple', 'file-text'],
+  ] as const).map(([name, color, icon], position) => {
+    const row: ChatType = { id: generateId(), name, color, icon, position, created_at: minutesAgo(60 * 24 * 7) };
+    db.chat_types.push(row);
+    return row;
+  });
+
+  addChat({ name: 'Bob Smith', is_group: false, type_id: internal.id, labels: [] }, [alice, bob], [
+    [bob, 'Hey Alice, do you have a minute?', 95],
+    [alice, 'Sure, what is up?', 93],
+    [bob, 'Can you review the onboarding copy before lunch?', 90],
+  ]);
+
+  addChat({ name: 'Product team', is_group: true, type_id: internal.id, labels: [] }, [alice, bob, carol], [
+    [carol, 'Standup notes are in the doc.', 300],
+    [alice, 'Thanks Carol!', 290],
+    [bob, 'Demo for Acme is confirmed for Thursday.', 45],
+  ]);
+
+  addChat({ name: 'Acme Corp demo', is_group: true, type_id: demo.id, labels: ['Customer', 'Follow up'] }, [alice, carol], [
+    [carol, 'Acme asked for a recording of the last session.', 20],
+  ]);
+
+  return db;
+};
+
+export const createMemoryBackend = (options: MemoryBackendOptions = {}): ChatBackend => {
+  const storageKey = options.storageKey === undefined ? DEFAULT_STORAGE_KEY : options.storageKey;
+  const seed = options.seed ?? true;
+
+  const listeners: Record<Topic, Set<(change: AnyChange) => void>> = {
+    users: new Set(),
+    chats: new Set(),
+    chat_members: new Set(),
+    messages: new Set(),
+    message_receipts: new Set(),
+    message_reactions: new Set(),
+    labels: new Set(),
+    chat_types: new Set(),
+  };
+  const authListeners = new Set<(session: AuthSession | null) => void>();
+  const typingListeners = new Set<(event: TypingEvent) => void>();
+  const presenceListeners = new Set<(signal: PresenceSignal) => void>();
+  const tabId = generateId();
+
+  const load = (): MemoryDb => {
+    if (storageKey) {
+      try {
+        const stored = localStorage.getItem(storageKey);
+        if (stored) return { ...emptyDb(), ...JSON.parse(stored) };
+      } catch (error) {
+        console.error('Error reading memory backend state:', error);
+      }
+    }
+    if (!seed) return emptyDb();
+    return typeof seed === 'function' ? seed(new Date()) : createDemoDb();
+  };
+
+  let db = load();
+
+  const save = () => {
+    if (!storageKey) return;
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(db));
+    } catch (error) {
+      console.error('Error writing memory backend state:', error);
+    }
+  };
+  save();
+
+  // Other tabs share the same localStorage database; tell them to reload and
+  // re-emit so realtime behaves as it would against a server.
+  const channel = storageKey && typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel(storageKey)
+    : null;
+
+  const notify = (topic: Topic, change: AnyChange) => {
+    listeners[topic].forEach(listener => listener(clone(change)));
+  };
+
+  const emit = (topic: Topic, change: AnyChange) => {
+    save();
+    notify(topic, change);
+    channel?.postMessage({ topic, change } satisfies BroadcastPayload);
+  };
+
+  channel?.addEventListener('message', ({ data }: MessageEvent<BroadcastPayload>) => {
+    if (data.topic === 'typing') {
+      typingListeners.forEach(listener => listener(data.event));
+      return;
+    }
+    if (data.topic === 'presence') {
+      presenceListeners.forEach(listener => listener(data.signal));
+      return;
+    }
+    db = load();
+    notify(data.topic, data.change);
+  });
+
+  // Sessions are per tab so two tabs can sign in as different demo users
+  let session: AuthSession | null = (() => {
+    if (!storageKey || typeof sessionStorage === 'undefined') return null;
+    const stored = sessionStorage.getItem(SESSION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  })();
+
+  const setSession = (next: AuthSession | null) => {
+    session = next;
+    if (storageKey && typeof sessionStorage !== 'undefined') {
+      if (next) {
+        sessionStorage.setItem(SESSION_KEY, JSON.stringify(next));
+      } else {
+        sessionStorage.removeItem(SESSION_KEY);
+      }
+    }
+    authListeners.forEach(listener => listener(next));
+  };
+
+  const subscribe = <T,>(topic: Topic, handler: (change: RowChange<T>) => void): Unsubscribe => {
+    const listener = handler as (change: AnyChange) => void;
+    listeners[topic].add(listener);
+    return () => {
+      listeners[topic].delete(listener);
+    };
+  };
+
+  const isMember = (chatId: string, userId: string) => db.chat_members.some(
+    member => member.chat_id === chatId && member.user_id === userId
+  );
+
+  // Mirrors the hidden_messages condition of the messages SELECT policy
+  const isHidden = (messageId: string, userId?: string) => !!userId && db.hidden_messages.some(
+    hidden => hidden.message_id === messageId && hidden.user_id === userId
+  );
+
+  const readStateOf = (chatId: string, userId: string) => {
+    const member = db.chat_members.find(
+      candidate => candidate.chat_id === chatId && candidate.user_id === userId
+    );
+    const chatMessages = db.messages.filter(
+      message => message.chat_id === chatId && !isHidden(message.id, userId)
+    );
+    return {
+      unread_count: countUnreadMessages(chatMessages, userId, member?.last_read_at),
+      unread_mention_count: countUnreadMentions(chatMessages, userId, member?.last_read_at),
+      last_read_at: member?.last_read_at,
+      marked_unread: member?.marked_unread ?? false,
+    };
+  };
+
+  // Mirrors is_chat_admin()
+  const isAdmin = (chatId: string, userId: string) =>
+    !!db.chats.find(chat => chat.id === chatId)?.is_group && db.chat_members.some(
+      member => member.chat_id === chatId && member.user_id === userId && member.role === 'admin'
+    );
+
+  // Mirrors the chat_members_member_count trigger, whose chat update tells
+  // every member about joins and leaves
+  const touchMemberCount = (chatId: string) => {
+    const chat = db.chats.find(candidate => candidate.id === chatId);
+    if (!chat) return;
+    const old = clone(chat);
+    chat.member_count = db.chat_members.filter(member => member.chat_id === chatId).length;
+    emit('chats', { event: 'UPDATE', new: clone(chat), old });
+  };
+
+  const updateMember = (chatId: string, userId: string, patch: Partial<ChatMember>) => {
+    const member = db.chat_members.find(
+      candidate => candidate.chat_id === chatId && candidate.user_id === userId
+    );
+    if (!member) return;
+    const old = clone(member);
+    Object.assign(member, patch);
+    emit('chat_members', { event: 'UPDATE', new: clone(member), old });
+  };
+
+  const updateReceipts = (
+    matches: (receipt: MessageReceipt) => boolean,
+    patch: (receipt: MessageReceipt) => Partial<MessageReceipt>
+  ) => {
+    db.message_receipts.filter(matches).forEach(receipt => {
+      const old = clone(receipt);
+      Object.assign(receipt, patch(receipt));
+      emit('message_receipts', { event: 'UPDATE', new: clone(receipt), old });
+    });
+  };
+
+  // Mirrors the messages_guard_update trigger and the UPDATE policy
+  const ownMessage = (messageId: string) => {
+    const message = db.messages.find(candidate => candidate.id === messageId);
+    if (!message || message.sender_id !== session?.user.id) {
+      throw new Error('Message not found');
+    }
+    if (message.deleted_at) {
+      throw new Error('This message was deleted');
+    }
+    return message;
+  };
+
+  const updateMessage = (message: Message, patch: Partial<Message>) => {
+    const old = clone(message);
+    Object.assign(message, patch);
+    emit('messages', { event: 'UPDATE', new: clone(message), old });
+
+    // Mirrors the messages_chat_summary trigger: the preview changed
+    const chat = db.chats.find(candidate => candidate.last_message_id === message.id);
+    if (chat) {
+      emit('chats', { event: 'UPDATE', new: clone(chat), old: clone(chat) });
+    }
+    return clone(message);
+  };
+
+  const setChatLabels = (chat: Chat, labels: string[]) => {
+    const old = clone(chat);
+    chat.labels = labels;
+    chat.updated_at = new Date().toISOString();
+    emit('chats', { event: 'UPDATE', new: clone(chat), old });
+  };
+
+  // Mirrors the UNIQUE (user_id, name) constraint of saved_filters
+  const ownFilterNameFree = (userId: string, name: string, exceptId?: string) => !db.saved_filters.some(
+    filter => filter.user_id === userId && filter.name === name && filter.id !== exceptId
+  );
+
+  // Same shape as the get_chat_summaries RPC
+  const toSummary = (chat: Chat, userId: string): Chat => ({
+    ...chat,
+    member_count: db.chat_members.filter(member => member.chat_id === chat.id).length,
+    member_ids: db.chat_members
+      .filter(member => member.chat_id === chat.id)
+      .map(member => member.user_id),
+    last_message: isHidden(chat.last_message_id ?? '', userId) 
+      ? undefined 
+      : db.messages.find(message => message.id === chat.last_message_id),
+    ...readStateOf(chat.id, userId),
+  });
+
+  // Adds a chat with its members in one go, so no one sees it without them
+  const insertChat = (
+    chat: Pick<Chat, 'is_group' | 'labels'> & Partial<Pick<Chat, 'name' | 'type_id'>>,
+    members: Pick<ChatMember, 'user_id' | 'role'>[]
+  ) => {
+    const now = new Date().toISOString();
+    const row: Chat = { ...chat, id: generateId(), created_at: now, updated_at: now, member_count: members.length };
+    const memberRows: ChatMember[] = members.map(member => ({ ...member, chat_id: row.id, joined_at: now }));
+    db.chats.push(row);
+    db.chat_members.push(...memberRows);
+    emit('chats', { event: 'INSERT', new: clone(row) });
+    memberRows.forEach(member => emit('chat_members', { event: 'INSERT', new: clone(member) }));
+    return row.id;
+  };
+
+  return {
+    kind: 'memory',
+
+    auth: {
+      getSession: async () => clone(session),
+
+      onAuthStateChange: (callback) => {
+        authListeners.add(callback);
+        return () => {
+          authListeners.delete(callback);
+        };
+      },
+
+      signIn: async (email, password) => {
+        const account = db.accounts.find(
+          candidate => candidate.email.toLowerCase() === email.toLowerCase()
+        );
+        if (!account || account.password !== password) {
+          throw new Error('Invalid login credentials');
+        }
+        const user = { id: account.user_id, email: account.email };
+        setSession({ user });
+        return user;
+      },
+
+      signUp: async (email, password, displayName) => {
+        if (db.accounts.some(account => account.email.toLowerCase() === email.toLowerCase())) {
+          throw new Error('User already registered');
+        }
+        const userId = generateId();
+        db.accounts.push({ user_id: userId, email, password });
+        db.users.push({
+          id: userId,
+          email,
+          display_name: displayName,
+          created_at: new Date().toISOString(),
+        });
+        save();
+        return { id: userId, email };
+      },
+
+      signOut: async () => {
+        setSession(null);
+      },
+    },
+
+    users: {
+      // Mirrors the users SELECT policy
+      list: async () => {
+        const userId = session?.user.id;
+        if (!userId) return [];
+        const chatIds = db.chat_members.filter(member => member.user_id === userId).map(member => member.chat_id);
+        return clone(db.users.filter(user =>
+          user.id === userId || chatIds.some(chatId => isMember(chatId, user.id))
+        ));
+      },
+
+      // Same columns as the get_user_directory RPC
+      directory: async () => {
+        if (!session) return [];
+        return db.users
+          .map(({ id, display_name, avatar_url }) => ({ id, display_name, avatar_url }))
+          .sort((a, b) => a.display_name.localeCompare(b.display_name));
+      },
+
+      ensure: async (profile) => {
+        if (db.users.some(user => user.id === profile.id)) return;
+        db.users.push({ ...profile, created_at: new Date().toISOString() });
+        save();
+      },
+    },
+
+    chats: {
+      listForUser: async (userId) => clone(
+        db.chats
+          .filter(chat => isMember(chat.id, userId))
+          .map(chat => toSummary(chat, userId))
+          .sort((a, b) => (b.last_message_at ?? b.updated_at).localeCompare(a.last_message_at ?? a.updated_at))
+      ),
+
+      get: async (chatId, userId) => {
+        const chat = db.chats.find(candidate => candidate.id === chatId);
+        return chat && isMember(chatId, userId) ? clone(toSummary(chat, userId)) : null;
+      },
+
+      assign: async (chatId, userId) => {
+        const chat = db.chats.find(candidate => candidate.id === chatId);
+        if (!chat || !isMember(chatId, session?.user.id ?? '')) {
+          throw new Error('Chat not found');
+        }
+        if (userId && !isMember(chatId, userId)) {
+          throw new Error('Chats can only be assigned to their members');
+        }
+
+        const old = clone(chat);
+        chat.assigned_to = userId;
+        chat.updated_at = new Date().toISOString();
+        emit('chats', { event: 'UPDATE', new: clone(chat), old });
+      },
+
+      // Mirrors the update_chat_labels RPC
+      updateLabels: async (chatIds, add, remove) => {
+        if (add.some(name => !db.labels.some(label => label.name === name))) {
+          throw new Error('Unknown label');
+        }
+        const userId = session?.user.id ?? '';
+        db.chats
+          .filter(chat => chatIds.includes(chat.id) && isMember(chat.id, userId))
+          .forEach(chat => {
+            const labels = [...new Set([...(chat.labels ?? []), ...add])]
+              .filter(name => !remove.includes(name))
+              .sort();
+            if (labels.join('\n') !== (chat.labels ?? []).join('\n')) setChatLabels(chat, labels);
+          });
+      },
+
+      setType: async (chatId, typeId) => {
+        const chat = db.chats.find(candidate => candidate.id === chatId);
+        if (!chat || !isMember(chatId, session?.user.id ?? '')) {
+          throw new Error('Chat not found');
+        }
+        if (typeId && !db.chat_types.some(chatType => chatType.id === typeId)) {
+          throw new Error('Unknown chat type');
+        }
+
+        const old = clone(chat);
+        chat.type_id = typeId;
+        chat.updated_at = new Date().toISOString();
+        emit('chats', { event: 'UPDATE', new: clone(chat), old });
+      },
+
+      // Mirrors the create_direct_chat RPC
+      openDirect: async (userId) => {
+        const currentUserId = session?.user.id;
+        if (!currentUserId) throw new Error('Not signed in');
+        if (userId === currentUserId) throw new Error('You cannot start a chat with yourself');
+        if (!db.users.some(user => user.id === userId)) throw new Error('Unknown user');
+
+        const existing = db.chats
+          .filter(chat => !chat.is_group && isMember(chat.id, currentUserId) && isMember(chat.id, userId))
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))[0];
+        if (existing) return existing.id;
+
+        return insertChat({ is_group: false, labels: [] }, [
+          { user_id: currentUserId, role: 'member' },
+          { user_id: userId, role: 'member' },
+        ]);
+      },
+
+      // Mirrors the chats_guard_rename trigger
+      rename: async (chatId, name) => {
+        const chat = db.chats.find(candidate => candidate.id === chatId);
+        if (!chat || !isAdmin(chatId, session?.user.id ?? '')) {
+          throw new Error('Only group admins can rename the group');
+        }
+        if (!name.trim()) throw new Error('A group needs a name');
+
+        const old = clone(chat);
+        chat.name = name.trim();
+        chat.updated_at = new Date().toISOString();
+        emit('chats', { event: 'UPDATE', new: clone(chat), old });
+      },
+
+      // Mirrors the create_group_chat RPC
+      createGroup: async (group) => {
+        const currentUserId = session?.user.id;
+        if (!currentUserId) throw new Error('Not signed in');
+        if (!group.name.trim()) throw new Error('A group needs a name');
+        const memberIds = [...new Set(group.memberIds)].filter(id => id !== currentUserId);
+        if (memberIds.length === 0) throw new Error('A group needs at least one other member');
+        if (memberIds.some(id => !db.users.some(user => user.id === id))) throw new Error('Unknown user');
+        const labels = [...new Set(group.labels ?? [])].sort();
+        if (labels.some(name => !db.labels.some(label => label.name === name))) throw new Error('Unknown label');
+        if (group.typeId && !db.chat_types.some(chatType => chatType.id === group.typeId)) {
+          throw new Error('Unknown chat type');
+        }
+
+        return insertChat({ name: group.name.trim(), is_group: true, type_id: group.typeId ?? null, labels }, [
+          { user_id: currentUserId, role: 'admin' },
+          ...memberIds.map(id => ({ user_id: id, role: 'member' as const })),
+        ]);
+      },
+    },
+
+    members: {
+      // Mirrors the chat_members and messages SELECT policies: members only
+      list: async (chatId) => isMember(chatId, session?.user.id ?? '')
+        ? clone(db.chat_members.filter(member => member.chat_id === chatId))
+        : [],
+
+      isMember: async (chatId, userId) => isMember(chatId, userId),
+
+      add: async (chatId, userIds) => {
+        if (!isAdmin(chatId, session?.user.id ?? '')) throw new Error('Only group admins can add members');
+        if (userIds.some(userId => isMember(chatId, userId))) throw new Error('Already a member of this group');
+
+        const now = new Date().toISOString();
+        userIds.forEach(userId => {
+          const row: ChatMember = { chat_id: chatId, user_id: userId, joined_at: now, role: 'member' };
+          db.chat_members.push(row);
+          emit('chat_members', { event: 'INSERT', new: clone(row) });
+        });
+        touchMemberCount(chatId);
+      },
+
+      // Mirrors the chat_members_release_assignment and chat_members_hand_over_admin triggers
+      remove: async (chatId, userId) => {
+        const currentUserId = session?.user.id ?? '';
+        if (userId !== currentUserId && !isAdmin(chatId, currentUserId)) {
+          throw new Error('Only group admins can remove members');
+        }
+        const index = db.chat_members.findIndex(member => member.chat_id === chatId && member.user_id === userId);
+        if (index === -1) return;
+
+        const [old] = db.chat_members.splice(index, 1);
+        emit('chat_members', { event: 'DELETE', old: clone(old) });
+        const remaining = db.chat_members
+          .filter(member => member.chat_id === chatId)
+          .sort((a, b) => a.joined_at.localeCompare(b.joined_at));
+        if (old.role === 'admin' && remaining.length > 0 && !remaining.some(member => member.role === 'admin')) {
+          updateMember(chatId, remaining[0].user_id, { role: 'admin' });
+        }
+        const chat = db.chats.find(candidate => candidate.id === chatId);
+        if (chat?.assigned_to === userId) chat.assigned_to = null;
+        touchMemberCount(chatId);
+      },
+
+      // Mirrors the chat_members_guard_update trigger
+      setRole: async (chatId, userId, role) => {
+        if (!isAdmin(chatId, session?.user.id ?? '')) throw new Error('Only group admins can change roles');
+        const admins = db.chat_members.filter(member => member.chat_id === chatId && member.role === 'admin');
+        if (role !== 'admin' && admins.length === 1 && admins[0].user_id === userId) {
+          throw new Error('A group needs at least one admin');
+        }
+        updateMember(chatId, userId, { role });
+      },
+
+      markRead: async (chatId, userId) => {
+        const now = new Date().toISOString();
+        updateMember(chatId, userId, { last_read_at: now, marked_unread: false });
+        updateReceipts(
+          receipt => receipt.chat_id === chatId && receipt.user_id === userId && !receipt.read_at,
+          receipt => ({ read_at: now, delivered_at: receipt.delivered_at ?? now })
+        );
+      },
+
+      markUnread: async (chatId, userId) => updateMember(chatId, userId, { marked_unread: true }),
+    },
+
+    messages: {
+      list: async (chatId, { before, after, limit = DEFAULT_PAGE_SIZE, threadRootId } = {}) => {
+        if (!isMember(chatId, session?.user.id ?? '')) return { messages: [], hasMore: false };
+        const timeline = db.messages
+          .filter(message => message.chat_id === chatId && !isHidden(message.id, session?.user.id))
+          .filter(message => (message.thread_root_id ?? undefined) === threadRootId)
+          .filter(message => !before || compareToCursor(message, before) < 0)
+          .filter(message => !after || compareToCursor(message, after) > 0)
+          .sort((a, b) => compareToCursor(a, b));
+
+        if (after && !before) {
+          return { messages: clone(timeline.slice(0, limit)), hasMore: timeline.length > limit };
+        }
+        return { messages: clone(timeline.slice(-limit)), hasMore: timeline.length > limit };
+      },
+
+      getMany: async (messageIds) => {
+        const ids = new Set(messageIds);
+        return clone(db.messages.filter(message => 
+          ids.has(message.id) && 
+          isMember(message.chat_id, session?.user.id ?? '') && 
+          !isHidden(message.id, session?.user.id)
+        ));
+      },
+
+      insert: async (message) => {
+        // Mirrors the messages INSERT policy
+        if (message.sender_id !== session?.user.id) throw new Error('Messages can only be sent as yourself');
+        if (!isMember(message.chat_id, message.sender_id)) {
+          throw new Error('Sender is not a member of this chat');
+        }
+        const existing = db.messages.find(candidate => candidate.id === message.id);
+        if (existing) return clone(existing);
+        // Mirrors the messages_check_references trigger
+        if (message.attachment_url && message.attachment_url.split('/')[0] !== message.chat_id) {
+          throw new Error('Attachments must be stored under their own chat');
+        }
+        if (message.reply_to_id && !db.messages.some(
+          candidate => candidate.id === message.reply_to_id && candidate.chat_id === message.chat_id
+        )) {
+          throw new Error('Replies must quote a message from the same chat');
+        }
+        const threadRoot = message.thread_root_id 
+          ? db.messages.find(candidate => candidate.id === message.thread_root_id) 
+          : undefined;
+        if (message.thread_root_id && (
+          !threadRoot || threadRoot.chat_id !== message.chat_id || threadRoot.thread_root_id
+        )) {
+          throw new Error('Threads can only start from a message in the main timeline of the same chat');
+        }
+
+        const row: Message = {
+          ...message,
+          // Mentions of non-members (or repeats) are dropped, like the trigger does
+          mentions: [...new Set(message.mentions ?? [])].filter(userId => isMember(message.chat_id, userId)),
+          created_at: new Date().toISOString(),
+          thread_reply_count: 0,
+        };
+        db.messages.push(row);
+        emit('messages', { event: 'INSERT', new: clone(row) });
+
+        // Mirrors the messages_receipts trigger
+        db.chat_members
+          .filter(member => member.chat_id === row.chat_id && member.user_id !== row.sender_id)
+          .forEach(member => {
+            const receipt: MessageReceipt = { message_id: row.id, user_id: member.user_id, chat_id: row.chat_id };
+            db.message_receipts.push(receipt);
+            emit('message_receipts', { event: 'INSERT', new: clone(receipt) });
+          });
+
+        // Mirrors the messages_thread_summary trigger; replies stay out of the chat summary
+        if (threadRoot) {
+          updateMessage(threadRoot, {
+            thread_reply_count: (threadRoot.thread_reply_count ?? 0) + 1,
+            thread_last_reply_at: row.created_at,
+          });
+          return clone(row);
+        }
+
+        // Mirrors the messages_chat_summary trigger
+        const chat = db.chats.find(candidate => candidate.id === row.chat_id);
+        if (chat) {
+          const old = clone(chat);
+          chat.last_message_id = row.id;
+          chat.last_message_at = row.created_at;
+          chat.updated_at = row.created_at;
+          emit('chats', { event: 'UPDATE', new: clone(chat), old });
+        }
+        return clone(row);
+      },
+
+      update: async (messageId, content) => {
+        const message = ownMessage(messageId);
+        if (!isWithinWindow(message.created_at, MESSAGE_EDIT_WINDOW_MS)) {
+          throw new Error('Messages can only be edited within 15 minutes of sending');
+        }
+        if (content === message.content) return clone(message);
+
+        db.message_edits.push({
+          id: generateId(),
+          message_id: message.id,
+          chat_id: message.chat_id,
+          content: message.content,
+          created_at: message.edited_at ?? message.created_at,
+        });
+        return updateMessage(message, { content, edited_at: new Date().toISOString() });
+      },
+
+      remove: async (messageId) => {
+        const message = ownMessage(messageId);
+        if (!isWithinWindow(message.created_at, MESSAGE_DELETE_WINDOW_MS)) {
+          throw new Error('Messages can only be deleted for everyone within an hour of sending');
+        }
+        // Like messages_guard_update, the edit history goes with the content
+        db.message_edits = db.message_edits.filter(edit => edit.message_id !== messageId);
+        return updateMessage(message, {
+          content: '',
+          attachment_url: undefined,
+          attachment_type: undefined,
+          deleted_at: new Date().toISOString(),
+        });
+      },
+
+      hide: async (messageId, userId) => {
+        const message = db.messages.find(candidate => candidate.id === messageId);
+        if (!message || !isMember(message.chat_id, userId)) {
+          throw new Error('Message not found');
+        }
+        if (isHidden(messageId, userId)) return;
+        db.hidden_messages.push({ message_id: messageId, user_id: userId, hidden_at: new Date().toISOString() });
+        save();
+      },
+
+      listEdits: async (messageId) => clone(
+        db.message_edits
+          .filter(edit => edit.message_id === messageId)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      ),
+
+      // A simpler stand-in for search_messages: every word (or "quoted phrase")
+      // must start a word of the content, and -word excludes
+      search: async ({ text = '', senderIds, chatIds, has, before, after, limit = DEFAULT_PAGE_SIZE }) => {
+        const userId = session?.user.id;
+        if (!userId) return [];
+
+        const terms = [...text.toLowerCase().matchAll(/(-?)(?:"([^"]+)"|(\S+))/g)]
+          .map(([, exclude, phrase, word]) => ({ exclude: !!exclude, value: (phrase ?? word).trim() }))
+          .filter(term => term.value && term.value !== 'or');
+        const wanted = terms.filter(term => !term.exclude).map(term => term.value);
+        const unwanted = terms.filter(term => term.exclude).map(term => term.value);
+        const startsWord = (content: string, value: string) =>
+          new RegExp(`(^|\\W)${escapeRegExp(value)}`).test(content);
+
+        return db.messages
+          .filter(message => {
+            const content = (message.content || '').toLowerCase();
+            return !message.deleted_at &&
+              isMember(message.chat_id, userId) &&
+              !isHidden(message.id, userId) &&
+              (!senderIds || senderIds.includes(message.sender_id)) &&
+              (!chatIds || chatIds.includes(message.chat_id)) &&
+              (!has?.includes('image') || message.attachment_type === 'image') &&
+              (!has?.includes('file') || (!!message.attachment_url && message.attachment_type !== 'image')) &&
+              (!before || message.created_at < before) &&
+              (!after || message.created_at > after) &&
+              wanted.every(value => startsWord(content, value)) &&
+              !unwanted.some(value => startsWord(content, value));
+          })
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .slice(0, limit)
+          .map(message => ({ message: clone(message), snippet: highlightMatches(message.content || '', wanted) }));
+      },
+
+      // Mirrors the find_chat_messages RPC
+      find: async (chatId, text, limit) => {
+        const userId = session?.user.id;
+        if (!userId || !isMember(chatId, userId)) return { messageIds: [], total: 0 };
+
+        const needle = text.toLowerCase();
+        const matches = db.messages
+          .filter(message =>
+            message.chat_id === chatId &&
+            !message.thread_root_id &&
+            !message.deleted_at &&
+            !isHidden(message.id, userId) &&
+            (message.content || '').toLowerCase().includes(needle)
+          )
+          .sort((a, b) => compareToCursor(a, b));
+        return { messageIds: matches.slice(-limit).map(message => message.id), total: matches.length };
+      },
+    },
+
+    receipts: {
+      list: async (messageIds) => {
+        const ids = new Set(messageIds);
+        return clone(db.message_receipts.filter(receipt => ids.has(receipt.message_id)));
+      },
+
+      markDelivered: async (userId, chatId) => {
+        const now = new Date().toISOString();
+        updateReceipts(
+          receipt => receipt.user_id === userId && 
+            !receipt.delivered_at && 
+            (!chatId || receipt.chat_id === chatId),
+          () => ({ delivered_at: now })
+        );
+      },
+    },
+
+    reactions: {
+      list: async (messageIds) => {
+        const ids = new Set(messageIds);
+        return clone(db.message_reactions.filter(reaction => ids.has(reaction.message_id)));
+      },
+
+      add: async (reaction) => {
+        const message = db.messages.find(candidate => candidate.id === reaction.message_id);
+        if (
+          !message ||
+          message.chat_id !== reaction.chat_id ||
+          reaction.user_id !== session?.user.id ||
+          !isMember(reaction.chat_id, reaction.user_id)
+        ) {
+          throw new Error('Message not found');
+        }
+        const exists = db.message_reactions.some(
+          row => row.message_id === reaction.message_id && row.user_id === reaction.user_id && row.emoji === reaction.emoji
+        );
+        if (exists) return;
+
+        const row: MessageReaction = { ...reaction, created_at: new Date().toISOString() };
+        db.message_reactions.push(row);
+        emit('message_reactions', { event: 'INSERT', new: clone(row) });
+      },
+
+      remove: async (messageId, userId, emoji) => {
+        const index = db.message_reactions.findIndex(
+          row => row.message_id === messageId && row.user_id === userId && row.emoji === emoji
+        );
+        if (index === -1 || userId !== session?.user.id) return;
+
+        const [old] = db.message_reactions.splice(index, 1);
+        emit('message_reactions', { event: 'DELETE', old: clone(old) });
+      },
+    },
+
+    labels: {
+      list: async () => clone([...db.labels].sort((a, b) => a.name.localeCompare(b.name))),
+
+      create: async (label) => {
+        if (!session) throw new Error('Not signed in');
+        if (db.labels.some(existing => existing.name === label.name)) throw new Error(DUPLICATE_LABEL_NAME);
+
+        const row: ChatLabel = { ...label, id: generateId(), created_at: new Date().toISOString() };
+        db.labels.push(row);
+        emit('labels', { event: 'INSERT', new: clone(row) });
+        return clone(row);
+      },
+
+      // Mirrors the labels_sync_chats trigger
+      update: async (labelId, patch) => {
+        const row = db.labels.find(label => label.id === labelId);
+        if (!row || !session) throw new Error('Label not found');
+        if (patch.name !== undefined && db.labels.some(label => label.name === patch.name && label.id !== labelId)) {
+          throw new Error(DUPLICATE_LABEL_NAME);
+        }
+
+        const old = clone(row);
+        Object.assign(row, patch);
+        emit('labels', { event: 'UPDATE', new: clone(row), old });
+        if (row.name !== old.name) {
+          db.chats
+            .filter(chat => chat.labels?.includes(old.name))
+            .forEach(chat => setChatLabels(chat, chat.labels!.map(name => (name === old.name ? row.name : name))));
+        }
+        return clone(row);
+      },
+
+      remove: async (labelId) => {
+        const index = db.labels.findIndex(label => label.id === labelId);
+        if (index === -1 || !session) return;
+
+        const [old] = db.labels.splice(index, 1);
+        emit('labels', { event: 'DELETE', old: clone(old) });
+        db.chats
+          .filter(chat => chat.labels?.includes(old.name))
+          .forEach(chat => setChatLabels(chat, chat.labels!.filter(name => name !== old.name)));
+      },
+    },
+
+    chatTypes: {
+      list: async () => clone(
+        [...db.chat_types].sort((a, b) => a.position - b.position || a.name.localeCompare(b.name))
+      ),
+
+      create: async (chatType) => {
+        if (!session) throw new Error('Not signed in');
+        if (db.chat_types.some(existing => existing.name === chatType.name)) throw new Error(DUPLICATE_CHAT_TYPE_NAME);
+
+        const row: ChatType = { ...chatType, id: generateId(), created_at: new Date().toISOString() };
+        db.chat_types.push(row);
+        emit('chat_types', { event: 'INSERT', new: clone(row) });
+        return clone(row);
+      },
+
+      update: async (typeId, patch) => {
+        const row = db.chat_types.find(chatType => chatType.id === typeId);
+        if (!row || !session) throw new Error('Chat type not found');
+        if (patch.name !== undefined && db.chat_types.some(chatType => chatType.name === patch.name && chatType.id !== typeId)) {
+          throw new Error(DUPLICATE_CHAT_TYPE_NAME);
+        }
+
+        const old = clone(row);
+        Object.assign(row, patch);
+        emit('chat_types', { event: 'UPDATE', new: clone(row), old });
+        return clone(row);
+      },
+
+      // Mirrors ON DELETE SET NULL on chats.type_id
+      remove: async (typeId) => {
+        const index = db.chat_types.findIndex(chatType => chatType.id === typeId);
+        if (index === -1 || !session) return;
+
+        const [old] = db.chat_types.splice(index, 1);
+        emit('chat_types', { event: 'DELETE', old: clone(old) });
+        db.chats
+          .filter(chat => chat.type_id === typeId)
+          .forEach(chat => {
+            const previous = clone(chat);
+            chat.type_id = null;
+            emit('chats', { event: 'UPDATE', new: clone(chat), old: previous });
+          });
+      },
+    },
+
+    savedFilters: {
+      list: async (userId) => clone(
+        db.saved_filters
+          .filter(filter => filter.user_id === userId && filter.user_id === session?.user.id)
+          .sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at))
+      ),
+
+      create: async (filter) => {
+        if (filter.user_id !== session?.user.id) throw new Error('Not signed in');
+        if (!ownFilterNameFree(filter.user_id, filter.name)) throw new Error(DUPLICATE_FILTER_NAME);
+
+        const row: SavedFilter = { ...clone(filter), id: generateId(), created_at: new Date().toISOString() };
+        db.saved_filters.push(row);
+        save();
+        return clone(row);
+      },
+
+      update: async (filterId, patch) => {
+        const row = db.saved_filters.find(filter => filter.id === filterId && filter.user_id === session?.user.id);
+        if (!row) throw new Error('Filter not found');
+        if (patch.name !== undefined && !ownFilterNameFree(row.user_id, patch.name, filterId)) {
+          throw new Error(DUPLICATE_FILTER_NAME);
+        }
+
+        Object.assign(row, clone(patch));
+        save();
+        return clone(row);
+      },
+
+      remove: async (filterId) => {
+        db.saved_filters = db.saved_filters.filter(
+          filter => filter.id !== filterId || filter.user_id !== session?.user.id
+        );
+        save();
+      },
+    },
+
+    // Presence is per tab: every visible tab of this origin is a connected session
+    presence: {
+      join: (userId, onSync) => {
+        const peers = new Map<string, { user_id: string; seen: number }>();
+        let active = true;
+        const signal = (state: PresenceSignal['state']) => {
+          channel?.postMessage({
+            topic: 'presence',
+            signal: { tab_id: tabId, user_id: userId, state },
+          } satisfies BroadcastPayload);
+        };
+
+        const sync = () => {
+          const now = Date.now();
+          peers.forEach((peer, id) => {
+            if (now - peer.seen > PRESENCE_TIMEOUT_MS) peers.delete(id);
+          });
+          const peerIds = [...peers.values()].map(peer => peer.user_id);
+          onSync([...new Set(active ? [userId, ...peerIds] : peerIds)]);
+        };
+
+        const listener = (incoming: PresenceSignal) => {
+          if (incoming.state === 'leave') {
+            peers.delete(incoming.tab_id);
+          } else {
+            // Answer newcomers so they learn about this tab straight away
+            if (active && incoming.state === 'join' && !peers.has(incoming.tab_id)) signal('heartbeat');
+            peers.set(incoming.tab_id, { user_id: incoming.user_id, seen: Date.now() });
+          }
+          sync();
+        };
+
+        // Like the Supabase backend, only the user's last active tab writes last_seen
+        const stopPresence = () => {
+          signal('leave');
+          if ([...peers.values()].some(peer => peer.user_id === userId)) return;
+          const user = db.users.find(candidate => candidate.id === userId);
+          if (!user) return;
+          const old = clone(user);
+          user.last_seen = new Date().toISOString();
+          emit('users', { event: 'UPDATE', new: clone(user), old });
+        };
+
+        const handlePageHide = () => {
+          if (active) stopPresence();
+        };
+        presenceListeners.add(listener);
+        window.addEventListener('pagehide', handlePageHide);
+        const heartbeat = setInterval(() => {
+          if (active) signal('heartbeat');
+          sync();
+        }, PRESENCE_HEARTBEAT_MS);
+
+        signal('join');
+        sync();
+
+        return {
+          setActive: (nextActive) => {
+            if (nextActive === active) return;
+            active = nextActive;
+            if (active) {
+              signal('join');
+            } else {
+              stopPresence();
+            }
+            sync();
+          },
+          leave: () => {
+            clearInterval(heartbeat);
+            window.removeEventListener('pagehide', handlePageHide);
+            presenceListeners.delete(listener);
+            if (active) stopPresence();
+          },
+        };
+      },
+    },
+
+    // Mirrors the attachments storage policies. Files are kept as data URLs,
+    // which serve as their own (non-expiring) signed URLs; fine for demos, not
+    // for large files.
+    storage: {
+      upload: async (path, file) => {
+        if (!isMember(path.split('/')[0], session?.user.id ?? '')) {
+          throw new Error('Attachments can only be uploaded to your own chats');
+        }
+        if (!db.attachments.some(attachment => attachment.path === path)) {
+          db.attachments.push({ path, data_url: await readFileAsDataUrl(file) });
+          save();
+        }
+        return { path };
+      },
+
+      createSignedUrl: async (path) => {
+        const attachment = db.attachments.find(candidate => candidate.path === path);
+        if (!attachment || !isMember(path.split('/')[0], session?.user.id ?? '')) {
+          throw new Error('Attachment not found');
+        }
+        return attachment.data_url;
+      },
+    },
+
+    realtime: {
+      onChatChange: (handler) => subscribe<Chat>('chats', handler),
+
+      onMessageChange: (chatId, handler) => subscribe<Message>('messages', (change) => {
+        const row = change.new ?? change.old;
+        if (row?.chat_id === chatId && !isHidden(row.id ?? '', session?.user.id)) handler(change);
+      }),
+
+      onMembershipChange: (userId, handler) => subscribe<ChatMember>('chat_members', (change) => {
+        const row = change.new ?? change.old;
+        if (row?.user_id === userId) handler(change);
+      }),
+
+      onTyping: (chatId, handler) => {
+        const listener = (event: TypingEvent) => {
+          if (event.chat_id === chatId) handler(event);
+        };
+        typingListeners.add(listener);
+        return () => {
+          typingListeners.delete(listener);
+        };
+      },
+
+      // Like a Supabase broadcast: other tabs only, nothing is stored
+      sendTyping: async (event) => {
+        channel?.postMessage({ topic: 'typing', event } satisfies BroadcastPayload);
+      },
+
+      onUserChange: (handler) => subscribe<User>('users', handler),
+
+      onLabelChange: (handler) => subscribe<ChatLabel>('labels', handler),
+      onChatTypeChange: (handler) => subscribe<ChatType>('chat_types', handler),
+
+      onReceiptChange: (chatId, handler) => subscribe<MessageReceipt>('message_receipts', (change) => {
+        const row = change.new ?? change.old;
+        if (row?.chat_id === chatId) handler(change);
+      }),
+
+      onReactionChange: (chatId, handler) => subscribe<MessageReaction>('message_reactions', (change) => {
+        const row = change.new ?? change.old;
+        if (row?.chat_id === chatId) handler(change);
+      }),
+    },
+  };
+};
@@ -0,0 +1,889 @@
+import { createClient, RealtimeChannel, Session, SupabaseClient } from '@supabase/supabase-js';
+import { Chat, ChatLabel, ChatMember, ChatType, Message, MessageReaction, MessageReceipt, User } from '@/types/chat';
+import { AuthSession, ChatBackend, RowChange, TypingEvent } from './types';
+
+const DEFAULT_PAGE_SIZE = 50;
+const UNIQUE_VIOLATION = '23505';
+const DUPLICATE_FILTER_NAME = 'You already have a filter with this name';
+const DUPLICATE_LABEL_NAME = 'A label with this name already exists';
+const DUPLICATE_CHAT_TYPE_NAME = 'A chat type with this name already exists';
+
+const toAuthSession = (session: Session | null): AuthSession | null => {
+  if (!session) return null;
+  return {
+    user: { id: session.user.id, email: session.user.email },
+    access_token: session.access_token,
+    expires_at: session.expires_at,
+  };
+};
+
+const toRowChange = <T,>(payload: { eventType: string; new: unknown; old: unknown }): RowChange<T> => ({
+  event: payload.eventType as RowChange<T>['event'],
+  new: payload.new && Object.keys(payload.new).length > 0 ? (payload.new as T) : undefined,
+  old: payload.old && Object.keys(payload.old).length > 0 ? (payload.old as Partial<T>) : undefined,
+});
+
+const isAlreadyExistsError = (error: { message: string; status?: number }) =>
+  error.status === 409 || /already exists/i.test(error.message);
+
+// Row shape returned by the get_chat_summaries RPC
+type ChatSummaryRow = Omit<Chat, 'last_message'> & { last_message: Message | null };
+
+const toChatSummary = (row: ChatSummaryRow): Chat => ({
+  ...row,
+  last_message: row.last_message ?? undefined,
+});
+
+// One realtime channel per chat carries its message changes; subscribers
+// share it and it is removed with the last one. Only the open chat needs one.
+interface ChatChannel {
+  channel: RealtimeChannel;
+  messageHandlers: Set<(change: RowChange<Message>) => void>;
+}
+
+// Typing broadcasts for every chat share one broadcast-only channel, so the
+// sidebar can listen to all of its chats without a channel per chat
+const TYPING_TOPIC = 'typing:workspace';
+
+export const createSupabaseBackend = (supabaseUrl: string, supabaseAnonKey: string): ChatBackend => {
+  const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKey);
+  const chatChannels = new Map<string, ChatChannel>();
+  const typingHandlers = new Map<string, Set<(event: TypingEvent) => void>>();
+  let typingChannel: RealtimeChannel | null = null;
+
+  const acquireChatChannel = (chatId: string): ChatChannel => {
+    const existing = chatChannels.get(chatId);
+    if (existing) return existing;
+
+    const messageHandlers: ChatChannel['messageHandlers'] = new Set();
+    const notifyMessageHandlers = (payload: { eventType: string; new: unknown; old: unknown }) => {
+      const change = toRowChange<Message>(payload);
+      messageHandlers.forEach(handler => handler(change));
+    };
+    const channel = supabase
+      .channel(`chat:${chatId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'messages',
+        filter: `chat_id=eq.${chatId}`
+      }, notifyMessageHandlers)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'messages',
+        filter: `chat_id=eq.${chatId}`
+      }, notifyMessageHandlers)
+      // DELETE events cannot be filtered and only carry the id; handlers
+      // ignore ids they do not know
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'messages'
+      }, notifyMessageHandlers)
+      .subscribe();
+
+    const entry = { channel, messageHandlers };
+    chatChannels.set(chatId, entry);
+    return entry;
+  };
+
+  const releaseChatChannel = (chatId: string) => {
+    const entry = chatChannels.get(chatId);
+    if (!entry || entry.messageHandlers.size > 0) return;
+    chatChannels.delete(chatId);
+    supabase.removeChannel(entry.channel);
+  };
+
+  const acquireTypingChannel = () => {
+    typingChannel ??= supabase
+      .channel(TYPING_TOPIC)
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const event = payload as TypingEvent;
+        typingHandlers.get(event.chat_id)?.forEach(handler => handler(event));
+      })
+      .subscribe();
+  };
+
+  const releaseTypingChannel = () => {
+    if (!typingChannel || typingHandlers.size > 0) return;
+    supabase.removeChannel(typingChannel);
+    typingChannel = null;
+  };
+
+  // Kept current so last_seen can be written while the page is being closed,
+  // when there is no time to wait for getSession()
+  let accessToken: string | null = null;
+  supabase.auth.onAuthStateChange((_event, session) => {
+    accessToken = session?.access_token ?? null;
+  });
+
+  // A keepalive request outlives the page, unlike the client's own fetches
+  const writeLastSeen = (userId: string) => {
+    if (!accessToken) return;
+    fetch(`${supabaseUrl}/rest/v1/users?id=eq.${userId}`, {
+      method: 'PATCH',
+      keepalive: true,
+      headers: {
+        apikey: supabaseAnonKey,
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        Prefer: 'return=minimal',
+      },
+      body: JSON.stringify({ last_seen: new Date().toISOString() }),
+    }).catch(error => console.error('Error updating last seen:', error));
+  };
+
+  return {
+    kind: 'supabase',
+
+    auth: {
+      getSession: async () => {
+        const { data: { session } } = await supabase.auth.getSession();
+        return toAuthSession(session);
+      },
+
+      onAuthStateChange: (callback) => {
+        const { data: { subscription } } = supabase.auth.onAuthStateChange(
+          (_event, session) => callback(toAuthSession(session))
+        );
+        return () => subscription.unsubscribe();
+      },
+
+      signIn: async (email, password) => {
+        const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+        return { id: data.user.id, email: data.user.email };
+      },
+
+      signUp: async (email, password, displayName) => {
+        const { data, error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: {
+            data: {
+              display_name: displayName,
+            }
+          }
+        });
+        if (error) throw error;
+        return data.user ? { id: data.user.id, email: data.user.email } : null;
+      },
+
+      signOut: async () => {
+        const { error } = await supabase.auth.signOut();
+        if (error) throw error;
+      },
+    },
+
+    users: {
+      list: async () => {
+        const { data, error } = await supabase
+          .from('users')
+          .select('*');
+        if (error) throw error;
+        return data || [];
+      },
+
+      directory: async () => {
+        const { data, error } = await supabase.rpc('get_user_directory');
+        if (error) throw error;
+        return data || [];
+      },
+
+      ensure: async (profile) => {
+        const { error } = await supabase
+          .from('users')
+          .upsert(
+            { ...profile, created_at: new Date().toISOString() },
+            { onConflict: 'id', ignoreDuplicates: true }
+          );
+        if (error) throw error;
+      },
+    },
+
+    chats: {
+      // Membership is enforced by the RPC through auth.uid()
+      listForUser: async () => {
+        const { data, error } = await supabase.rpc('get_chat_summaries');
+        if (error) throw error;
+        return (data || []).map(toChatSummary);
+      },
+
+      get: async (chatId) => {
+        const { data, error } = await supabase
+          .rpc('get_chat_summaries', { p_chat_id: chatId })
+          .maybeSingle<ChatSummaryRow>();
+        if (error) throw error;
+        return data ? toChatSummary(data) : null;
+      },
+
+      // The chats_check_assignee trigger rejects assignees who are not members
+      assign: async (chatId, userId) => {
+        const { error } = await supabase
+          .from('chats')
+          .update({ assigned_to: userId })
+          .eq('id', chatId);
+        if (error) throw error;
+      },
+
+      updateLabels: async (chatIds, add, remove) => {
+        if (chatIds.length === 0) return;
+        const { error } = await supabase.rpc('update_chat_labels', {
+          p_chat_ids: chatIds,
+          p_add: add,
+          p_remove: remove,
+        });
+        if (error) throw error;
+      },
+
+      setType: async (chatId, typeId) => {
+        const { error } = await supabase
+          .from('chats')
+          .update({ type_id: typeId })
+          .eq('id', chatId);
+        if (error) throw error;
+      },
+
+      openDirect: async (userId) => {
+        const { data, error } = await supabase.rpc('create_direct_chat', { p_user_id: userId });
+        if (error) throw error;
+        return data as string;
+      },
+
+      createGroup: async (group) => {
+        const { data, error } = await supabase.rpc('create_group_chat', {
+          p_name: group.name,
+          p_member_ids: group.memberIds,
+          p_type_id: group.typeId ?? null,
+          p_labels: group.labels ?? [],
+        });
+        if (error) throw error;
+        return data as string;
+      },
+
+      // The chats_guard_rename trigger limits this to group admins
+      rename: async (chatId, name) => {
+        const { error } = await supabase
+          .from('chats')
+          .update({ name })
+          .eq('id', chatId);
+        if (error) throw error;
+      },
+    },
+
+    members: {
+      list: async (chatId) => {
+        const { data, error } = await supabase
+          .from('chat_members')
+          .select('*')
+          .eq('chat_id', chatId);
+        if (error) throw error;
+        return data || [];
+      },
+
+      isMember: async (chatId, userId) => {
+        const { data, error } = await supabase
+          .from('chat_members')
+          .select('chat_id')
+          .eq('chat_id', chatId)
+          .eq('user_id', userId)
+          .maybeSingle();
+        if (error) throw error;
+        return !!data;
+      },
+
+      // Read state is written through RPCs scoped to auth.uid()
+      add: async (chatId, userIds) => {
+        const { error } = await supabase
+          .from('chat_members')
+          .insert(userIds.map(userId => ({ chat_id: chatId, user_id: userId, role: 'member' })));
+        if (error?.code === UNIQUE_VIOLATION) throw new Error('Already a member of this group');
+        if (error) throw error;
+      },
+
+      remove: async (chatId, userId) => {
+        const { data, error } = await supabase
+          .from('chat_members')
+          .delete()
+          .eq('chat_id', chatId)
+          .eq('user_id', userId)
+          .select('id');
+        if (error) throw error;
+        // RLS hides rows the user may not delete instead of failing
+        if (!data?.length) throw new Error('Only group admins can remove members');
+      },
+
+      setRole: async (chatId, userId, role) => {
+        const { data, error } = await supabase
+          .from('chat_members')
+          .update({ role })
+          .eq('chat_id', chatId)
+          .eq('user_id', userId)
+          .select('id');
+        if (error) throw error;
+        if (!data?.length) throw new Error('Only group admins can change roles');
+      },
+
+      markRead: async (chatId) => {
+        const { error } = await supabase.rpc('mark_chat_read', { p_chat_id: chatId });
+        if (error) throw error;
+      },
+
+      markUnread: async (chatId) => {
+        const { error } = await supabase.rpc('mark_chat_unread', { p_chat_id: chatId });
+        if (error) throw error;
+      },
+    },
+
+    messages: {
+      list: async (chatId, { before, after, limit = DEFAULT_PAGE_SIZE, threadRootId } = {}) => {
+        // Newer-than queries walk forwards; everything else walks back from the cursor (or the end)
+        const ascending = !!after && !before;
+
+        let query = supabase
+          .from('messages')
+          .select('*')
+          .eq('chat_id', chatId);
+
+        query = threadRootId 
+          ? query.eq('thread_root_id', threadRootId) 
+          : query.is('thread_root_id', null);
+
+        if (before) {
+          query = query.or(
+            `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+          );
+        }
+        if (after) {
+          query = query.or(
+            `created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`
+          );
+        }
+
+        // Fetch one extra row to learn whether another page exists
+        const { data, error } = await query
+          .order('created_at', { ascending })
+          .order('id', { ascending })
+          .limit(limit + 1);
+        if (error) throw error;
+
+        const rows = (data || []) as Message[];
+        const page = rows.slice(0, limit);
+        return {
+          messages: ascending ? page : page.reverse(),
+          hasMore: rows.length > limit,
+        };
+      },
+
+      getMany: async (messageIds) => {
+        if (messageIds.length === 0) return [];
+        const { data, error } = await supabase
+          .from('messages')
+          .select('*')
+          .in('id', messageIds);
+        if (error) throw error;
+        return data || [];
+      },
+
+      insert: async (message) => {
+        const { data, error } = await supabase
+          .from('messages')
+          // created_at is stamped by the messages_check_references trigger
+          .insert(message)
+          .select()
+          .single();
+
+        // A retry of a send that already reached the server
+        if (error?.code === UNIQUE_VIOLATION) {
+          const { data: existing, error: existingError } = await supabase
+            .from('messages')
+            .select('*')
+            .eq('id', message.id)
+            .single();
+          if (existingError) throw existingError;
+          return existing;
+        }
+
+        if (error) throw error;
+        return data;
+      },
+
+      // The messages_guard_update trigger enforces the windows and records history
+      update: async (messageId, content) => {
+        const { data, error } = await supabase
+          .from('messages')
+          .update({ content })
+          .eq('id', messageId)
+          .select()
+          .single();
+        if (error) throw error;
+        return data;
+      },
+
+      // The trigger stamps deleted_at and clears the content
+      remove: async (messageId) => {
+        const { data, error } = await supabase
+          .from('messages')
+          .update({ deleted_at: new Date().toISOString() })
+          .eq('id', messageId)
+          .select()
+          .single();
+        if (error) throw error;
+        return data;
+      },
+
+      hide: async (messageId, userId) => {
+        const { error } = await supabase
+          .from('hidden_messages')
+          .upsert({ message_id: messageId, user_id: userId }, { 
+            onConflict: 'message_id,user_id', 
+            ignoreDuplicates: true 
+          });
+        if (error) throw error;
+      },
+
+      listEdits: async (messageId) => {
+        const { data, error } = await supabase
+          .from('message_edits')
+          .select('*')
+          .eq('message_id', messageId)
+          .order('created_at', { ascending: true });
+        if (error) throw error;
+        return data || [];
+      },
+
+      // Runs with the caller's rights, so only their chats (and nothing they hid) are searched
+      search: async ({ text, senderIds, chatIds, has, before, after, limit = DEFAULT_PAGE_SIZE }) => {
+        const { data, error } = await supabase.rpc('search_messages', {
+          p_query: text?.trim() || null,
+          p_sender_ids: senderIds ?? null,
+          p_chat_ids: chatIds ?? null,
+          p_has: has ?? null,
+          p_before: before ?? null,
+          p_after: after ?? null,
+          p_limit: limit,
+        });
+        if (error) throw error;
+        return ((data || []) as { message: Message; snippet: string | null }[]).map(row => ({
+          message: row.message,
+          snippet: row.snippet ?? '',
+        }));
+      },
+
+      find: async (chatId, text, limit) => {
+        const { data, error } = await supabase.rpc('find_chat_messages', {
+          p_chat_id: chatId,
+          p_text: text,
+          p_limit: limit,
+        });
+        if (error) throw error;
+        const rows = (data || []) as { id: string; total: number }[];
+        return { messageIds: rows.map(row => row.id), total: Number(rows[0]?.total ?? 0) };
+      },
+    },
+
+    receipts: {
+      list: async (messageIds) => {
+        if (messageIds.length === 0) return [];
+        const { data, error } = await supabase
+          .from('message_receipts')
+          .select('*')
+          .in('message_id', messageIds);
+        if (error) throw error;
+        return data || [];
+      },
+
+      markDelivered: async (_userId, chatId) => {
+        const { error } = await supabase.rpc('mark_messages_delivered', { p_chat_id: chatId ?? null });
+        if (error) throw error;
+      },
+    },
+
+    reactions: {
+      list: async (messageIds) => {
+        if (messageIds.length === 0) return [];
+        const { data, error } = await supabase
+          .from('message_reactions')
+          .select('*')
+          .in('message_id', messageIds)
+          .order('created_at', { ascending: true });
+        if (error) throw error;
+        return data || [];
+      },
+
+      add: async (reaction) => {
+        const { error } = await supabase
+          .from('message_reactions')
+          .upsert(reaction, { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true });
+        if (error) throw error;
+      },
+
+      remove: async (messageId, userId, emoji) => {
+        const { error } = await supabase
+          .from('message_reactions')
+          .delete()
+          .eq('message_id', messageId)
+          .eq('user_id', userId)
+          .eq('emoji', emoji);
+        if (error) throw error;
+      },
+    },
+
+    labels: {
+      list: async () => {
+        const { data, error } = await supabase
+          .from('labels')
+          .select('*')
+          .order('name', { ascending: true });
+        if (error) throw error;
+        return data || [];
+      },
+
+      create: async (label) => {
+        const { data, error } = await supabase
+          .from('labels')
+          .insert(label)
+          .select()
+          .single();
+        if (error?.code === UNIQUE_VIOLATION) throw new Error(DUPLICATE_LABEL_NAME);
+        if (error) throw error;
+        return data;
+      },
+
+      // The labels_sync_chats trigger carries renames over to the chats
+      update: async (labelId, patch) => {
+        const { data, error } = await supabase
+          .from('labels')
+          .update(patch)
+          .eq('id', labelId)
+          .select()
+          .single();
+        if (error?.code === UNIQUE_VIOLATION) throw new Error(DUPLICATE_LABEL_NAME);
+        if (error) throw error;
+        return data;
+      },
+
+      remove: async (labelId) => {
+        const { error } = await supabase
+          .from('labels')
+          .delete()
+          .eq('id', labelId);
+        if (error) throw error;
+      },
+    },
+
+    chatTypes: {
+      list: async () => {
+        const { data, error } = await supabase
+          .from('chat_types')
+          .select('*')
+          .order('position', { ascending: true })
+          .order('name', { ascending: true });
+        if (error) throw error;
+        return data || [];
+      },
+
+      create: async (chatType) => {
+        const { data, error } = await supabase
+          .from('chat_types')
+          .insert(chatType)
+          .select()
+          .single();
+        if (error?.code === UNIQUE_VIOLATION) throw new Error(DUPLICATE_CHAT_TYPE_NAME);
+        if (error) throw error;
+        return data;
+      },
+
+      update: async (typeId, patch) => {
+        const { data, error } = await supabase
+          .from('chat_types')
+          .update(patch)
+          .eq('id', typeId)
+          .select()
+          .single();
+        if (error?.code === UNIQUE_VIOLATION) throw new Error(DUPLICATE_CHAT_TYPE_NAME);
+        if (error) throw error;
+        return data;
+      },
+
+      remove: async (typeId) => {
+        const { error } = await supabase
+          .from('chat_types')
+          .delete()
+          .eq('id', typeId);
+        if (error) throw error;
+      },
+    },
+
+    savedFilters: {
+      list: async (userId) => {
+        const { data, error } = await supabase
+          .from('saved_filters')
+          .select('*')
+          .eq('user_id', userId)
+          .order('position', { ascending: true })
+          .order('created_at', { ascending: true });
+        if (error) throw error;
+        return data || [];
+      },
+
+      create: async (filter) => {
+        const { data, error } = await supabase
+          .from('saved_filters')
+          .insert(filter)
+          .select()
+          .single();
+        if (error?.code === UNIQUE_VIOLATION) throw new Error(DUPLICATE_FILTER_NAME);
+        if (error) throw error;
+        return data;
+      },
+
+      update: async (filterId, patch) => {
+        const { data, error } = await supabase
+          .from('saved_filters')
+          .update(patch)
+          .eq('id', filterId)
+          .select()
+          .single();
+        if (error?.code === UNIQUE_VIOLATION) throw new Error(DUPLICATE_FILTER_NAME);
+        if (error) throw error;
+        return data;
+      },
+
+      remove: async (filterId) => {
+        const { error } = await supabase
+          .from('saved_filters')
+          .delete()
+          .eq('id', filterId);
+        if (error) throw error;
+      },
+    },
+
+    presence: {
+      join: (userId, onSync) => {
+        // Tells this session's presences apart from the user's other tabs
+        const sessionId = crypto.randomUUID();
+        const channel = supabase.channel('presence:online', {
+          config: { presence: { key: userId } },
+        });
+        let subscribed = false;
+        let active = true;
+
+        const track = () => channel.track({ session_id: sessionId, online_at: new Date().toISOString() });
+
+        // Only the user's last active session records when they were last seen
+        const stopPresence = () => {
+          const others = (channel.presenceState<{ session_id: string }>()[userId] ?? [])
+            .filter(presence => presence.session_id !== sessionId);
+          if (others.length === 0) writeLastSeen(userId);
+        };
+
+        channel
+          .on('presence', { event: 'sync' }, () => {
+            // Keys are user ids; a user with several tabs has several presences
+            onSync(Object.keys(channel.presenceState()));
+          })
+          .subscribe(async (status) => {
+            if (status !== 'SUBSCRIBED') return;
+            subscribed = true;
+            if (active) await track();
+          });
+
+        const handlePageHide = () => {
+          if (active) stopPresence();
+        };
+        window.addEventListener('pagehide', handlePageHide);
+
+        return {
+          setActive: (nextActive) => {
+            if (nextActive === active) return;
+            active = nextActive;
+            if (!subscribed) return;
+            if (active) {
+              track();
+            } else {
+              stopPresence();
+              channel.untrack();
+            }
+          },
+          leave: () => {
+            window.removeEventListener('pagehide', handlePageHide);
+            if (active) stopPresence();
+            supabase.removeChannel(channel);
+          },
+        };
+      },
+    },
+
+    storage: {
+      upload: async (path, file) => {
+        const { error } = await supabase
+          .storage
+          .from('attachments')
+          .upload(path, file);
+        // Paths are derived from message ids, so an existing object is a retried upload
+        if (error && !isAlreadyExistsError(error)) throw error;
+        return { path };
+      },
+
+      createSignedUrl: async (path, expiresIn) => {
+        const { data, error } = await supabase
+          .storage
+          .from('attachments')
+          .createSignedUrl(path, expiresIn);
+        if (error) throw error;
+        return data.signedUrl;
+      },
+    },
+
+    realtime: {
+      onChatChange: (handler) => {
+        const channel = supabase
+          .channel('public:chats')
+          .on('postgres_changes', {
+            event: '*',
+            schema: 'public',
+            table: 'chats'
+          }, (payload) => handler(toRowChange<Chat>(payload)))
+          .subscribe();
+
+        return () => {
+          supabase.removeChannel(channel);
+        };
+      },
+
+      onMessageChange: (chatId, handler) => {
+        acquireChatChannel(chatId).messageHandlers.add(handler);
+
+        return () => {
+          chatChannels.get(chatId)?.messageHandlers.delete(handler);
+          releaseChatChannel(chatId);
+        };
+      },
+
+      onTyping: (chatId, handler) => {
+        acquireTypingChannel();
+        const handlers = typingHandlers.get(chatId) ?? new Set();
+        handlers.add(handler);
+        typingHandlers.set(chatId, handlers);
+
+        return () => {
+          handlers.delete(handler);
+          if (handlers.size === 0 && typingHandlers.get(chatId) === handlers) {
+            typingHandlers.delete(chatId);
+          }
+          releaseTypingChannel();
+        };
+      },
+
+      sendTyping: async (event) => {
+        // Broadcasts are not echoed back to the sender
+        await typingChannel?.send({
+          type: 'broadcast',
+          event: 'typing',
+          payload: event,
+        });
+      },
+
+      onMembershipChange: (userId, handler) => {
+        const channel = supabase
+          .channel(`chat_members:${userId}`)
+          .on('postgres_changes', {
+            event: '*',
+            schema: 'public',
+            table: 'chat_members',
+            filter: `user_id=eq.${userId}`
+          }, (payload) => handler(toRowChange<ChatMember>(payload)))
+          .subscribe();
+
+        return () => {
+          supabase.removeChannel(channel);
+        };
+      },
+
+      onUserChange: (handler) => {
+        const channel = supabase
+          .channel('public:users')
+          .on('postgres_changes', {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'users'
+          }, (payload) => handler(toRowChange<User>(payload)))
+          .subscribe();
+
+        return () => {
+          supabase.removeChannel(channel);
+        };
+      },
+
+      onLabelChange: (handler) => {
+        const channel = supabase
+          .channel('public:labels')
+          .on('postgres_changes', {
+            event: '*',
+            schema: 'public',
+            table: 'labels'
+          }, (payload) => handler(toRowChange<ChatLabel>(payload)))
+          .subscribe();
+
+        return () => {
+          supabase.removeChannel(channel);
+        };
+      },
+
+      onChatTypeChange: (handler) => {
+        const channel = supabase
+          .channel('public:chat_types')
+          .on('postgres_changes', {
+            event: '*',
+            schema: 'public',
+            table: 'chat_types'
+          }, (payload) => handler(toRowChange<ChatType>(payload)))
+          .subscribe();
+
+        return () => {
+          supabase.removeChannel(channel);
+        };
+      },
+
+      onReceiptChange: (chatId, handler) => {
+        const channel = supabase
+          .channel(`message_receipts:${chatId}`)
+          .on('postgres_changes', {
+            event: '*',
+            schema: 'public',
+            table: 'message_receipts',
+            filter: `chat_id=eq.${chatId}`
+          }, (payload) => handler(toRowChange<MessageReceipt>(payload)))
+          .subscribe();
+
+        return () => {
+          supabase.removeChannel(channel);
+        };
+      },
+
+      onReactionChange: (chatId, handler) => {
+        const channel = supabase
+          .channel(`message_reactions:${chatId}`)
+          .on('postgres_changes', {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'message_reactions',
+            filter: `chat_id=eq.${chatId}`
+          }, (payload) => handler(toRowChange<MessageReaction>(payload)))
+          // DELETE events cannot be filtered; they carry the primary key only
+          .on('postgres_changes', {
+            event: 'DELETE',
+            schema: 'public',
+            table: 'message_reactions'
+          }, (payload) => handler(toRowChange<MessageReaction>(payload)))
+          .subscribe();
+
+        return () => {
+          supabase.removeChannel(channel);
+        };
+      },
+    },
+  };
+};
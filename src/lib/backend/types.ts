@@ -0,0 +1,280 @@
+import { Chat, ChatLabel, ChatMember, ChatType, DirectoryUser, Message, MessageEdit, MessageReaction, MessageReceipt, SavedFilter, User } from '@/types/chat';
+
+// The signed-in identity as seen by the app, independent of the auth provider
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  access_token?: string;
+  expires_at?: number;
+}
+
+export type Unsubscribe = () => void;
+
+export type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// A row change delivered by the realtime layer (mirrors Supabase postgres_changes)
+export interface RowChange<T> {
+  event: ChangeEvent;
+  new?: T;
+  old?: Partial<T>;
+}
+
+// Keyset position in a chat's timeline; ties on created_at are broken by id
+export interface MessageCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface MessagePageOptions {
+  // Messages strictly older than the cursor
+  before?: MessageCursor;
+  // Messages strictly newer than the cursor
+  after?: MessageCursor;
+  limit?: number;
+  // Replies of this thread instead of the chat's main timeline
+  threadRootId?: string;
+}
+
+// A page of messages in ascending order. hasMore tells whether more rows exist
+// beyond the page in the direction that was requested (older by default).
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+}
+
+// Ephemeral "is composing" signal; never stored
+export interface TypingEvent {
+  chat_id: string;
+  user_id: string;
+  typing: boolean;
+}
+
+export interface NewMessage {
+  // Client-generated so optimistic copies can be reconciled; inserting the
+  // same id twice returns the stored row instead of failing
+  id: string;
+  chat_id: string;
+  sender_id: string;
+  content: string;
+  attachment_url?: string;
+  attachment_type?: Message['attachment_type'];
+  reply_to_id?: string | null;
+  thread_root_id?: string | null;
+  mentions?: string[];
+}
+
+// Full-text search over the messages the user can see. Every given filter
+// must match; senderIds and chatIds match any of their ids.
+export interface MessageSearchQuery {
+  text?: string;
+  senderIds?: string[];
+  chatIds?: string[];
+  has?: ('image' | 'file')[];
+  // Exclusive bounds on created_at (ISO timestamps)
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+export interface MessageSearchHit {
+  message: Message;
+  // Content excerpt with matches wrapped in HIGHLIGHT_START/HIGHLIGHT_END (see lib/search)
+  snippet: string;
+}
+
+export interface UploadedFile {
+  path: string;
+}
+
+export interface AuthApi {
+  getSession: () => Promise<AuthSession | null>;
+  onAuthStateChange: (callback: (session: AuthSession | null) => void) => Unsubscribe;
+  signIn: (email: string, password: string) => Promise<AuthUser>;
+  signUp: (email: string, password: string, displayName: string) => Promise<AuthUser | null>;
+  signOut: () => Promise<void>;
+}
+
+export interface UsersApi {
+  // Full profiles: the current user and everyone they share a chat with
+  list: () => Promise<User[]>;
+  // Every user in the workspace, for starting chats and groups
+  directory: () => Promise<DirectoryUser[]>;
+  // Creates the profile row if it does not exist yet; never overwrites
+  ensure: (profile: Pick<User, 'id' | 'email' | 'display_name'>) => Promise<void>;
+}
+
+// Chats come back as summaries: last_message, member_count and unread_count
+// are filled in, and only chats the user belongs to are visible.
+export interface ChatsApi {
+  listForUser: (userId: string) => Promise<Chat[]>;
+  get: (chatId: string, userId: string) => Promise<Chat | null>;
+  // Members only; the assignee must be a member too (null unassigns)
+  assign: (chatId: string, userId: string | null) => Promise<void>;
+  // Adds and removes labels on every given chat the user is a member of;
+  // added labels must be in the catalog
+  updateLabels: (chatIds: string[], add: string[], remove: string[]) => Promise<void>;
+  // Members only; null leaves the chat untyped
+  setType: (chatId: string, typeId: string | null) => Promise<void>;
+  // The id of the user's direct chat with another user; the chat and both
+  // memberships are created together when there is none yet
+  openDirect: (userId: string) => Promise<string>;
+  // Creates the group and its memberships in one step, with the current user
+  // as admin; resolves to the new chat's id
+  createGroup: (group: NewGroupChat) => Promise<string>;
+  // Group admins only
+  rename: (chatId: string, name: string) => Promise<void>;
+}
+
+export interface NewGroupChat {
+  name: string;
+  memberIds: string[];
+  typeId?: string | null;
+  // Catalog label names
+  labels?: string[];
+}
+
+// The shared label catalog. Renaming a label renames it on every chat and
+// deleting it removes it from them; those chats change like any other update.
+export interface LabelsApi {
+  list: () => Promise<ChatLabel[]>;
+  create: (label: Pick<ChatLabel, 'name' | 'color' | 'created_by'>) => Promise<ChatLabel>;
+  update: (labelId: string, patch: Partial<Pick<ChatLabel, 'name' | 'color'>>) => Promise<ChatLabel>;
+  remove: (labelId: string) => Promise<void>;
+}
+
+// The shared chat type registry, in position order. Deleting a type leaves its
+// chats untyped; those chats change like any other update.
+export interface ChatTypesApi {
+  list: () => Promise<ChatType[]>;
+  create: (chatType: Pick<ChatType, 'name' | 'color' | 'icon' | 'position'>) => Promise<ChatType>;
+  update: (typeId: string, patch: Partial<Pick<ChatType, 'name' | 'color' | 'icon' | 'position'>>) => Promise<ChatType>;
+  remove: (typeId: string) => Promise<void>;
+}
+
+// Adding, removing and changing the role of others is for group admins; anyone
+// can remove themselves (leave). A group always keeps at least one admin: the
+// last one cannot be demoted, and when they leave the longest-standing member
+// takes over.
+export interface MembersApi {
+  list: (chatId: string) => Promise<ChatMember[]>;
+  isMember: (chatId: string, userId: string) => Promise<boolean>;
+  add: (chatId: string, userIds: string[]) => Promise<void>;
+  remove: (chatId: string, userId: string) => Promise<void>;
+  setRole: (chatId: string, userId: string, role: NonNullable<ChatMember['role']>) => Promise<void>;
+  markRead: (chatId: string, userId: string) => Promise<void>;
+  markUnread: (chatId: string, userId: string) => Promise<void>;
+}
+
+// Find in one chat's main timeline: case-insensitive substring matches
+export interface MessageFindResult {
+  // The newest matches up to the limit, oldest first
+  messageIds: string[];
+  // Every match, including those past the limit
+  total: number;
+}
+
+export interface MessagesApi {
+  list: (chatId: string, options?: MessagePageOptions) => Promise<MessagePage>;
+  // Specific messages, e.g. the originals quoted by replies; ids that do not
+  // exist or are not visible to the user are left out
+  getMany: (messageIds: string[]) => Promise<Message[]>;
+  insert: (message: NewMessage) => Promise<Message>;
+  // Sender only, within the edit window; the previous content is kept as a MessageEdit
+  update: (messageId: string, content: string) => Promise<Message>;
+  // Deletes for everyone (sender only, within the delete window): the row stays
+  // as a tombstone without content, so every member sees it was deleted
+  remove: (messageId: string) => Promise<Message>;
+  // Deletes for this user only; hidden messages are left out of every read
+  hide: (messageId: string, userId: string) => Promise<void>;
+  listEdits: (messageId: string) => Promise<MessageEdit[]>;
+  // Best matches first (newest first without text); deleted messages are never found
+  search: (query: MessageSearchQuery) => Promise<MessageSearchHit[]>;
+  // Deleted messages and thread replies are never found
+  find: (chatId: string, text: string, limit: number) => Promise<MessageFindResult>;
+}
+
+// Receipts are created server-side for every recipient when a message is sent;
+// marking a chat read (MembersApi.markRead) also marks its receipts read.
+export interface ReceiptsApi {
+  list: (messageIds: string[]) => Promise<MessageReceipt[]>;
+  // Marks the user's pending receipts delivered, in one chat or in all of them
+  markDelivered: (userId: string, chatId?: string) => Promise<void>;
+}
+
+// One row per (message, user, emoji); reacting twice with the same emoji is a no-op
+export interface ReactionsApi {
+  list: (messageIds: string[]) => Promise<MessageReaction[]>;
+  add: (reaction: Omit<MessageReaction, 'created_at'>) => Promise<void>;
+  remove: (messageId: string, userId: string, emoji: string) => Promise<void>;
+}
+
+// Private to their owner, in tab order
+export interface SavedFiltersApi {
+  list: (userId: string) => Promise<SavedFilter[]>;
+  create: (filter: Omit<SavedFilter, 'id' | 'created_at'>) => Promise<SavedFilter>;
+  update: (filterId: string, patch: Partial<Pick<SavedFilter, 'name' | 'definition' | 'position'>>) => Promise<SavedFilter>;
+  remove: (filterId: string) => Promise<void>;
+}
+
+// A joined presence session; online state lives only in the presence channel
+export interface PresenceSession {
+  // Inactive sessions (hidden tabs) stay subscribed but do not count as online
+  setActive: (active: boolean) => void;
+  leave: Unsubscribe;
+}
+
+export interface PresenceApi {
+  // Announces this session as online and reports the full set of online user
+  // ids whenever it changes. users.last_seen is written when the user's last
+  // active session goes away, including when the page is closed.
+  join: (userId: string, onSync: (onlineUserIds: string[]) => void) => PresenceSession;
+}
+
+// Attachments are private and stored under their chat (<chat_id>/<file>); only
+// members of that chat can upload them or get a URL to read them
+export interface StorageApi {
+  upload: (path: string, file: File) => Promise<UploadedFile>;
+  // A URL that serves the file for the next expiresIn seconds
+  createSignedUrl: (path: string, expiresIn: number) => Promise<string>;
+}
+
+export interface RealtimeApi {
+  onChatChange: (handler: (change: RowChange<Chat>) => void) => Unsubscribe;
+  // Inserts, edits and deletions; DELETE changes may only carry old.id
+  onMessageChange: (chatId: string, handler: (change: RowChange<Message>) => void) => Unsubscribe;
+  // Typing broadcasts for all chats share one channel; handlers only get their chat's
+  onTyping: (chatId: string, handler: (event: TypingEvent) => void) => Unsubscribe;
+  sendTyping: (event: TypingEvent) => Promise<void>;
+  // Changes to the given user's own chat_members rows (joins, leaves, read state)
+  onMembershipChange: (userId: string, handler: (change: RowChange<ChatMember>) => void) => Unsubscribe;
+  onReceiptChange: (chatId: string, handler: (change: RowChange<MessageReceipt>) => void) => Unsubscribe;
+  // DELETE changes may only carry the key columns (message_id, user_id, emoji)
+  onReactionChange: (chatId: string, handler: (change: RowChange<MessageReaction>) => void) => Unsubscribe;
+  onUserChange: (handler: (change: RowChange<User>) => void) => Unsubscribe;
+  onLabelChange: (handler: (change: RowChange<ChatLabel>) => void) => Unsubscribe;
+  onChatTypeChange: (handler: (change: RowChange<ChatType>) => void) => Unsubscribe;
+}
+
+// Everything the UI needs from a chat server. Implementations must be
+// interchangeable: the Supabase backend talks to a real project, the memory
+// backend keeps the same data locally so the app runs without one.
+export interface ChatBackend {
+  kind: 'supabase' | 'memory';
+  auth: AuthApi;
+  users: UsersApi;
+  chats: ChatsApi;
+  members: MembersApi;
+  messages: MessagesApi;
+  receipts: ReceiptsApi;
+  reactions: ReactionsApi;
+  savedFilters: SavedFiltersApi;
+  labels: LabelsApi;
+  chatTypes: ChatTypesApi;
+  presence: PresenceApi;
+  storage: StorageApi;
+  realtime: RealtimeApi;
+}
@@ -0,0 +1,91 @@
+import { Chat, ChatFilter, ChatFilterCondition } from '@/types/chat';
+
+export const createEmptyFilter = (): ChatFilter => ({ match: 'all', rules: [] });
+
+export const isFilterGroup = (rule: ChatFilterCondition | ChatFilter): rule is ChatFilter => 'rules' in rule;
+
+// A condition still being filled in (e.g. no label picked yet) matches every chat
+export const isCompleteCondition = (condition: ChatFilterCondition): boolean => {
+  switch (condition.field) {
+    case 'type':
+      return condition.typeIds.length > 0;
+    case 'labels':
+      return condition.labels.length > 0;
+    case 'participants':
+      return condition.userIds.length > 0;
+    case 'date':
+      return !!condition.after || !!condition.before;
+    case 'assignee':
+      return condition.assignee !== 'user' || !!condition.userId;
+    default:
+      return true;
+  }
+};
+
+const countConditions = (filter: ChatFilter): number => filter.rules.reduce(
+  (count, rule) => count + (isFilterGroup(rule) ? countConditions(rule) : isCompleteCondition(rule) ? 1 : 0),
+  0
+);
+
+export const isEmptyFilter = (filter: ChatFilter) => countConditions(filter) === 0;
+
+// Local calendar day, comparable as a string with the YYYY-MM-DD filter dates
+const toDay = (dateString: string) => {
+  const date = new Date(dateString);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const matchesCondition = (chat: Chat, condition: ChatFilterCondition, currentUserId?: string): boolean => {
+  switch (condition.field) {
+    case 'type':
+      return !!chat.type_id && condition.typeIds.includes(chat.type_id);
+    case 'labels': {
+      const labels = chat.labels ?? [];
+      if (condition.match === 'all') return condition.labels.every(label => labels.includes(label));
+      const any = condition.labels.some(label => labels.includes(label));
+      return condition.match === 'any' ? any : !any;
+    }
+    case 'unread': {
+      if (condition.state === 'mentions') return (chat.unread_mention_count ?? 0) > 0;
+      const unread = (chat.unread_count ?? 0) > 0 || !!chat.marked_unread;
+      return condition.state === 'unread' ? unread : !unread;
+    }
+    case 'kind':
+      return condition.kind === 'group' ? chat.is_group : !chat.is_group;
+    case 'participants': {
+      const memberIds = chat.member_ids ?? [];
+      return condition.match === 'all'
+        ? condition.userIds.every(id => memberIds.includes(id))
+        : condition.userIds.some(id => memberIds.includes(id));
+    }
+    case 'date': {
+      const day = toDay(condition.date === 'created' ? chat.created_at : chat.last_message_at ?? chat.updated_at);
+      return (!condition.after || day >= condition.after) && (!condition.before || day <= condition.before);
+    }
+    case 'assignee':
+      switch (condition.assignee) {
+        case 'me':
+          return !!currentUserId && chat.assigned_to === currentUserId;
+        case 'unassigned':
+          return !chat.assigned_to;
+        case 'assigned':
+          return !!chat.assigned_to;
+        case 'user':
+          return chat.assigned_to === condition.userId;
+      }
+  }
+};
+
+export const matchesChatFilter = (chat: Chat, filter: ChatFilter, currentUserId?: string): boolean => {
+  const results = filter.rules
+    .filter(rule => (isFilterGroup(rule) ? !isEmptyFilter(rule) : isCompleteCondition(rule)))
+    .map(rule => isFilterGroup(rule)
+      ? matchesChatFilter(chat, rule, currentUserId)
+      : matchesCondition(chat, rule, currentUserId));
+  if (results.length === 0) return true;
+  return filter.match === 'all' ? results.every(Boolean) : results.some(Boolean);
+};
+
+export const countMatchingChats = (chats: Chat[], filter: ChatFilter, currentUserId?: string) =>
+  chats.filter(chat => matchesChatFilter(chat, filter, currentUserId)).length;
@@ -0,0 +1,38 @@
+import {
+  Briefcase,
+  Building2,
+  FileText,
+  Headphones,
+  Heart,
+  LucideIcon,
+  Megaphone,
+  Presentation,
+  ShoppingCart,
+  Star,
+  Tag,
+  UserPlus,
+} from 'lucide-react';
+import { ChatType } from '@/types/chat';
+
+// Icons a chat type can use, by the key stored in chat_types.icon
+export const CHAT_TYPE_ICONS: Record<string, LucideIcon> = {
+  tag: Tag,
+  presentation: Presentation,
+  building: Building2,
+  'user-plus': UserPlus,
+  'file-text': FileText,
+  briefcase: Briefcase,
+  headphones: Headphones,
+  megaphone: Megaphone,
+  'shopping-cart': ShoppingCart,
+  heart: Heart,
+  star: Star,
+};
+
+export const CHAT_TYPE_ICON_KEYS = Object.keys(CHAT_TYPE_ICONS);
+
+// Keys this client does not know (e.g. set by a newer one) fall back to a tag
+export const getChatTypeIcon = (icon: string): LucideIcon => CHAT_TYPE_ICONS[icon] ?? Tag;
+
+export const findChatType = (chatTypes: ChatType[], typeId?: string | null) =>
+  typeId ? chatTypes.find(chatType => chatType.id === typeId) : undefined;
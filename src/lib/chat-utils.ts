@@ -1,5 +1,6 @@
 
-import { Chat, Message, User } from "@/types/chat";
+import { Chat, Message, MessageReaction, MessageReceipt, ReceiptStatus, User } from "@/types/chat";
+import { MentionTarget, stripMarkdown } from "./markdown";
 
 // Format message time for display
 export const formatMessageTime = (dateString: string): string => {
@@ -40,26 +41,99 @@ export const getUserInitials = (name: string): string => {
 // Get message preview text (truncated)
 export const getMessagePreview = (content: string, maxLength = 30): string => {
   if (!content) return "";
-  return content.length > maxLength 
-    ? `${content.substring(0, maxLength)}...` 
-    : content;
+  // Previews are a single line of plain text
+  const text = stripMarkdown(content).replace(/\s+/g, " ").trim();
+  return text.length > maxLength 
+    ? `${text.substring(0, maxLength)}...` 
+    : text;
 };
 
-// Sort chats by most recent activity
+// Names to look for as "@Name" in a message, for the users it mentions
+export const getMentionTargets = (message: Message, users: User[]): MentionTarget[] =>
+  (message.mentions ?? []).flatMap(userId => {
+    const name = users.find(u => u.id === userId)?.display_name;
+    return name ? [{ userId, name }] : [];
+  });
+
+// The "@partial" being typed right before the caret, if any (empty right after "@")
+export const getMentionQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+// Members whose name has a word starting with the query, for @ autocomplete
+export const findMentionCandidates = (members: User[], query: string, limit = 8): User[] => {
+  const needle = query.toLowerCase();
+  return members
+    .filter(member => (member.display_name || '').toLowerCase().split(/\s+/).some(word => word.startsWith(needle)))
+    .slice(0, limit);
+};
+
+// One-line summary of a message for reply quotes
+export const getQuoteSnippet = (message: Message): string => {
+  if (message.deleted_at) return "This message was deleted";
+  if (message.content) return stripMarkdown(message.content).replace(/\s+/g, " ").trim();
+  switch (message.attachment_type) {
+    case 'image':
+      return "Photo";
+    case 'video':
+      return "Video";
+    case 'document':
+      return "File";
+    default:
+      return "";
+  }
+};
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+  reactedByMe: boolean;
+}
+
+// One chip per emoji, in the order each emoji was first used
+export const groupReactions = (reactions: MessageReaction[], currentUserId?: string): ReactionSummary[] => {
+  const groups = new Map<string, ReactionSummary>();
+  reactions.forEach(reaction => {
+    const group = groups.get(reaction.emoji) ?? { emoji: reaction.emoji, count: 0, userIds: [], reactedByMe: false };
+    group.count += 1;
+    group.userIds.push(reaction.user_id);
+    group.reactedByMe = group.reactedByMe || reaction.user_id === currentUserId;
+    groups.set(reaction.emoji, group);
+  });
+  return [...groups.values()];
+};
+
+// When the chat last had activity; label, type or assignee changes do not count
+export const getChatActivityAt = (chat: Chat) => chat.last_message_at ?? chat.updated_at;
+
+// Same order as get_chat_summaries, so realtime upserts and full loads agree
 export const sortChatsByRecent = (chats: Chat[]): Chat[] => {
   return [...chats].sort((a, b) => 
-    new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
+    new Date(getChatActivityAt(b)).getTime() - new Date(getChatActivityAt(a)).getTime()
   );
 };
 
-// Count unread messages
+const isUnreadBy = (msg: Message, userId: string, lastReadDate: Date | null) =>
+  msg.sender_id !== userId && 
+  !msg.deleted_at &&
+  !msg.thread_root_id &&
+  (!lastReadDate || new Date(msg.created_at) > lastReadDate);
+
+// Count unread messages (everything from others is unread until the chat is first read)
 export const countUnreadMessages = (messages: Message[], userId: string, lastReadTime?: string): number => {
-  if (!lastReadTime) return 0;
-  
-  const lastReadDate = new Date(lastReadTime);
+  const lastReadDate = lastReadTime ? new Date(lastReadTime) : null;
+  return messages.filter(msg => isUnreadBy(msg, userId, lastReadDate)).length;
+};
+
+// Count unread messages that @mention the user
+export const countUnreadMentions = (messages: Message[], userId: string, lastReadTime?: string): number => {
+  const lastReadDate = lastReadTime ? new Date(lastReadTime) : null;
   return messages.filter(msg => 
-    msg.sender_id !== userId && 
-    new Date(msg.created_at) > lastReadDate
+    isUnreadBy(msg, userId, lastReadDate) && 
+    !!msg.mentions?.includes(userId)
   ).length;
 };
 
@@ -71,3 +145,78 @@ export const getChatParticipants = (users: User[], chatMembers: {user_id: string
     
   return users.filter(user => participantIds.includes(user.id));
 };
+
+
+// Aggregate receipts into a tick state: read once everyone read it,
+// delivered once everyone received it
+export const getReceiptStatus = (receipts: MessageReceipt[] = []): ReceiptStatus => {
+  if (receipts.length === 0) return 'sent';
+  if (receipts.every(receipt => receipt.read_at)) return 'read';
+  if (receipts.every(receipt => receipt.delivered_at)) return 'delivered';
+  return 'sent';
+};
+
+// "Alice is typing…" / "Alice and Bob are typing…"; direct chats just say "typing…"
+export const formatTypingText = (names: string[], isGroup: boolean): string => {
+  if (names.length === 0) return "";
+  if (!isGroup) return "typing…";
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names[0]} and ${names.length - 1} others are typing…`;
+};
+
+// "last seen today at 14:02" / "last seen yesterday at 09:15" / "last seen 12/03/2026 at 18:40"
+export const formatLastSeen = (dateString?: string): string => {
+  if (!dateString) return "offline";
+
+  const day = formatRelativeDate(dateString);
+  const time = formatMessageTime(dateString);
+  if (day === "Today" || day === "Yesterday") {
+    return `last seen ${day.toLowerCase()} at ${time}`;
+  }
+  return `last seen ${day} at ${time}`;
+};
+
+// The other participant of a direct chat
+export const getDirectChatPartner = (chat: Chat, users: User[], currentUserId?: string): User | undefined => {
+  if (chat.is_group) return undefined;
+  const partnerId = chat.member_ids?.find(id => id !== currentUserId);
+  return users.find(user => user.id === partnerId);
+};
+
+// Direct chats are shown under the other participant's name, whatever they were created with
+export const getChatDisplayName = (chat: Chat, users: User[], currentUserId?: string): string =>
+  getDirectChatPartner(chat, users, currentUserId)?.display_name || chat.name || (chat.is_group ? "Group" : "Unknown User");
+
+// Insert or replace a message by id; server rows replace optimistic copies
+export const mergeMessage = (messages: Message[], incoming: Message): Message[] => {
+  if (messages.some(message => message.id === incoming.id)) {
+    return messages.map(message => (message.id === incoming.id ? incoming : message));
+  }
+  return [...messages, incoming];
+};
+
+// Applies a server-side change to a loaded message; messages outside the
+// loaded pages are left alone
+export const replaceMessage = (messages: Message[], updated: Message): Message[] => 
+  messages.map(message => (message.id === updated.id ? { ...message, ...updated } : message));
+
+// How long after sending a message can be edited or deleted for everyone
+// (enforced by the messages_guard_update trigger in supabase/schema.sql)
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60_000;
+export const MESSAGE_DELETE_WINDOW_MS = 60 * 60_000;
+
+export const isWithinWindow = (dateString: string, windowMs: number, now = Date.now()): boolean => 
+  now - new Date(dateString).getTime() <= windowMs;
+
+// Own, sent (not queued or failed) and not deleted
+const isManageable = (message: Message, userId?: string) => 
+  message.sender_id === userId && !message.status && !message.deleted_at;
+
+export const canEditMessage = (message: Message, userId?: string): boolean => 
+  isManageable(message, userId) && 
+  !!message.content && 
+  isWithinWindow(message.created_at, MESSAGE_EDIT_WINDOW_MS);
+
+export const canDeleteForEveryone = (message: Message, userId?: string): boolean => 
+  isManageable(message, userId) && isWithinWindow(message.created_at, MESSAGE_DELETE_WINDOW_MS);
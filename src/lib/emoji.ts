@@ -0,0 +1,196 @@
+import type { CompactEmoji } from 'emojibase';
+// Bundled with the app: the picker never fetches emoji data at runtime
+import compactEmojis from 'emojibase-data/en/compact.json';
+import githubShortcodes from 'emojibase-data/en/shortcodes/github.json';
+import emojibaseShortcodes from 'emojibase-data/en/shortcodes/emojibase.json';
+
+export interface EmojiEntry {
+  // Default (yellow) presentation
+  emoji: string;
+  label: string;
+  // Without colons, most familiar first
+  shortcodes: string[];
+  tags: string[];
+  category: EmojiCategoryKey;
+  // Variants by skin tone (1-5), for emojis that have them
+  skins?: Record<number, string>;
+}
+
+export type EmojiCategoryKey =
+  | 'smileys'
+  | 'people'
+  | 'nature'
+  | 'food'
+  | 'travel'
+  | 'activities'
+  | 'objects'
+  | 'symbols'
+  | 'flags';
+
+export interface EmojiCategory {
+  key: EmojiCategoryKey;
+  label: string;
+  icon: string;
+}
+
+// Emojibase group numbers; group 2 (skin tone components) is left out
+const GROUP_CATEGORIES: Record<number, EmojiCategoryKey> = {
+  0: 'smileys',
+  1: 'people',
+  3: 'nature',
+  4: 'food',
+  5: 'travel',
+  6: 'activities',
+  7: 'objects',
+  8: 'symbols',
+  9: 'flags',
+};
+
+export const EMOJI_CATEGORIES: EmojiCategory[] = [
+  { key: 'smileys', label: 'Smileys & emotion', icon: '😀' },
+  { key: 'people', label: 'People & body', icon: '👋' },
+  { key: 'nature', label: 'Animals & nature', icon: '🐻' },
+  { key: 'food', label: 'Food & drink', icon: '🍔' },
+  { key: 'travel', label: 'Travel & places', icon: '✈️' },
+  { key: 'activities', label: 'Activities', icon: '⚽' },
+  { key: 'objects', label: 'Objects', icon: '💡' },
+  { key: 'symbols', label: 'Symbols', icon: '❤️' },
+  { key: 'flags', label: 'Flags', icon: '🏁' },
+];
+
+// 0 is the default tone; 1-5 follow the Fitzpatrick modifiers
+export const SKIN_TONES = [
+  { tone: 0, label: 'Default', swatch: '✋' },
+  { tone: 1, label: 'Light', swatch: '✋🏻' },
+  { tone: 2, label: 'Medium-light', swatch: '✋🏼' },
+  { tone: 3, label: 'Medium', swatch: '✋🏽' },
+  { tone: 4, label: 'Medium-dark', swatch: '✋🏾' },
+  { tone: 5, label: 'Dark', swatch: '✋🏿' },
+];
+
+const TONE_MODIFIERS = ['1F3FB', '1F3FC', '1F3FD', '1F3FE', '1F3FF'];
+
+const toList = (value?: string | string[]) => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+// Multi-person emojis have a variant per combination of tones; use the one with a single tone
+const skinsByTone = (skins: CompactEmoji[]) => {
+  const byTone: Record<number, string> = {};
+  TONE_MODIFIERS.forEach((modifier, index) => {
+    const match = skins.find(skin => {
+      const modifiers = skin.hexcode.split('-').filter(part => TONE_MODIFIERS.includes(part));
+      return modifiers.length > 0 && modifiers.every(part => part === modifier);
+    });
+    if (match) byTone[index + 1] = match.unicode;
+  });
+  return Object.keys(byTone).length > 0 ? byTone : undefined;
+};
+
+export const EMOJIS: EmojiEntry[] = (compactEmojis as CompactEmoji[])
+  .filter(emoji => emoji.group !== undefined && GROUP_CATEGORIES[emoji.group])
+  .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+  .map(emoji => ({
+    emoji: emoji.unicode,
+    label: emoji.label,
+    shortcodes: [...new Set([
+      ...toList(githubShortcodes[emoji.hexcode]),
+      ...toList(emojibaseShortcodes[emoji.hexcode]),
+    ])],
+    tags: emoji.tags ?? [],
+    category: GROUP_CATEGORIES[emoji.group!],
+    skins: emoji.skins ? skinsByTone(emoji.skins) : undefined,
+  }));
+
+const byShortcode = new Map<string, EmojiEntry>();
+EMOJIS.forEach(entry => entry.shortcodes.forEach(code => {
+  if (!byShortcode.has(code)) byShortcode.set(code, entry);
+}));
+
+export const withSkinTone = (entry: EmojiEntry, tone: number) => entry.skins?.[tone] ?? entry.emoji;
+
+export const findEmojiByShortcode = (shortcode: string) => byShortcode.get(shortcode.toLowerCase());
+
+// Matches on shortcodes, name and keywords; names and shortcodes outrank keywords
+const searchRank = (entry: EmojiEntry, needle: string) => {
+  const names = [...entry.shortcodes, ...entry.label.toLowerCase().split(/[\s:_-]+/)];
+  if (names.some(name => name === needle)) return 0;
+  if (names.some(name => name.startsWith(needle))) return 1;
+  if (entry.tags.some(tag => tag.startsWith(needle))) return 2;
+  if (entry.label.toLowerCase().includes(needle) || entry.shortcodes.some(code => code.includes(needle))) return 3;
+  return -1;
+};
+
+export const searchEmojis = (query: string, limit = 200): EmojiEntry[] => {
+  const needle = query.trim().toLowerCase().replace(/^:|:$/g, '');
+  if (!needle) return [];
+
+  return EMOJIS
+    .map(entry => ({ entry, rank: searchRank(entry, needle) }))
+    .filter(result => result.rank >= 0)
+    // Stable sort keeps the catalog order within a rank
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(result => result.entry);
+};
+
+// Shortcode completions for the composer, with the shortcode that matched
+export const completeShortcode = (prefix: string, limit = 8): { entry: EmojiEntry; shortcode: string }[] => {
+  const needle = prefix.toLowerCase();
+  const matches: { entry: EmojiEntry; shortcode: string }[] = [];
+  for (const entry of EMOJIS) {
+    const shortcode = entry.shortcodes.find(code => code.startsWith(needle))
+      ?? entry.shortcodes.find(code => code.includes(needle));
+    if (shortcode) matches.push({ entry, shortcode });
+  }
+  // Prefix matches first, then shorter codes
+  return matches
+    .sort((a, b) =>
+      Number(!a.shortcode.startsWith(needle)) - Number(!b.shortcode.startsWith(needle)) ||
+      a.shortcode.length - b.shortcode.length
+    )
+    .slice(0, limit);
+};
+
+// The ":partial" being typed right before the caret, if any
+export const getShortcodeQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const match = /(^|\s):([a-z0-9_+-]{2,})$/i.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+const MAX_RECENT_EMOJIS = 24;
+
+const recentKey = (userId: string) => `chat-canvas:recent-emojis:${userId}`;
+const skinToneKey = (userId: string) => `chat-canvas:emoji-skin-tone:${userId}`;
+
+// Per-user picker state lives in localStorage; a broken entry just starts fresh
+export const loadRecentEmojis = (userId: string): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(recentKey(userId)) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(item => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRecentEmoji = (userId: string, emoji: string): string[] => {
+  const recent = [emoji, ...loadRecentEmojis(userId).filter(item => item !== emoji)].slice(0, MAX_RECENT_EMOJIS);
+  try {
+    localStorage.setItem(recentKey(userId), JSON.stringify(recent));
+  } catch (error) {
+    console.error("Error saving recent emojis:", error);
+  }
+  return recent;
+};
+
+export const loadSkinTone = (userId: string): number => {
+  const tone = Number(localStorage.getItem(skinToneKey(userId)));
+  return Number.isInteger(tone) && tone >= 0 && tone <= 5 ? tone : 0;
+};
+
+export const saveSkinTone = (userId: string, tone: number) => {
+  try {
+    localStorage.setItem(skinToneKey(userId), String(tone));
+  } catch (error) {
+    console.error("Error saving skin tone:", error);
+  }
+};
@@ -0,0 +1,28 @@
+import { ChatLabel, LabelColor } from '@/types/chat';
+
+// Tailwind classes per palette key; keep the keys in sync with the labels.color
+// check constraint in supabase/schema.sql
+export const LABEL_COLORS: Record<LabelColor, { chip: string; dot: string }> = {
+  gray: { chip: 'bg-gray-100 text-gray-700', dot: 'bg-gray-400' },
+  red: { chip: 'bg-red-100 text-red-700', dot: 'bg-red-500' },
+  orange: { chip: 'bg-orange-100 text-orange-700', dot: 'bg-orange-500' },
+  yellow: { chip: 'bg-yellow-100 text-yellow-800', dot: 'bg-yellow-400' },
+  green: { chip: 'bg-green-100 text-green-700', dot: 'bg-green-500' },
+  teal: { chip: 'bg-teal-100 text-teal-700', dot: 'bg-teal-500' },
+  blue: { chip: 'bg-blue-100 text-blue-700', dot: 'bg-blue-500' },
+  purple: { chip: 'bg-purple-100 text-purple-700', dot: 'bg-purple-500' },
+  pink: { chip: 'bg-pink-100 text-pink-700', dot: 'bg-pink-500' },
+};
+
+export const LABEL_COLOR_KEYS = Object.keys(LABEL_COLORS) as LabelColor[];
+
+// Labels a chat carries that left the catalog meanwhile are shown in gray
+export const getLabelColor = (labels: ChatLabel[], name: string): LabelColor =>
+  labels.find(label => label.name === name)?.color ?? 'gray';
+
+// Whether every, some or none of the chats carry the label
+export const getLabelState = (chatLabels: string[][], name: string): 'all' | 'some' | 'none' => {
+  const count = chatLabels.filter(labels => labels.includes(name)).length;
+  if (count === 0) return 'none';
+  return count === chatLabels.length ? 'all' : 'some';
+};
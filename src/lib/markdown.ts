@@ -0,0 +1,256 @@
+// A small Markdown dialect for chat messages. Parsing produces a tree that is
+// rendered as React elements, so message text is never injected as HTML.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: InlineNode[] }
+  | { type: 'link'; kind: 'url' | 'email' | 'phone'; text: string; href: string }
+  | { type: 'mention'; userId: string; text: string };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] };
+
+interface InlineRule {
+  pattern: RegExp;
+  // Index of the capture group holding any leading context before the markup
+  offsetGroup?: number;
+  build: (match: RegExpExecArray, parse: (text: string) => InlineNode[]) => InlineNode | null;
+}
+
+// A user @mentioned in a message, as written in its content ("@Display Name")
+export interface MentionTarget {
+  userId: string;
+  name: string;
+}
+
+export interface MarkdownOptions {
+  mentions?: MentionTarget[];
+}
+
+// Trailing punctuation is usually part of the sentence, not the link
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>]*[^\s<>.,:;"')\]!?*_~`]/i;
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\b/i;
+const PHONE_PATTERN = /(?:\+\d[\d\s().-]{5,}\d|\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]\d{4}\b)/;
+
+const toSafeUrl = (text: string): string | null => {
+  try {
+    const url = new URL(/^www\./i.test(text) ? `https://${text}` : text);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// Earlier rules win when two matches start at the same position
+const INLINE_RULES: InlineRule[] = [
+  {
+    pattern: /`([^`\n]+)`/,
+    build: (match) => ({ type: 'code', text: match[1] }),
+  },
+  {
+    pattern: URL_PATTERN,
+    build: (match) => {
+      const href = toSafeUrl(match[0]);
+      return href ? { type: 'link', kind: 'url', text: match[0], href } : null;
+    },
+  },
+  {
+    pattern: EMAIL_PATTERN,
+    build: (match) => ({ type: 'link', kind: 'email', text: match[0], href: `mailto:${match[0]}` }),
+  },
+  {
+    pattern: PHONE_PATTERN,
+    build: (match) => {
+      const digits = match[0].replace(/[^\d+]/g, '');
+      const count = digits.replace('+', '').length;
+      return count >= 7 && count <= 15 ? { type: 'link', kind: 'phone', text: match[0], href: `tel:${digits}` } : null;
+    },
+  },
+  {
+    pattern: /\*\*(?=\S)([\s\S]*?\S)\*\*/,
+    build: (match, parse) => ({ type: 'strong', children: parse(match[1]) }),
+  },
+  {
+    pattern: /(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/,
+    offsetGroup: 1,
+    build: (match, parse) => ({ type: 'strong', children: parse(match[2]) }),
+  },
+  {
+    pattern: /~~(?=\S)([\s\S]*?\S)~~/,
+    build: (match, parse) => ({ type: 'strike', children: parse(match[1]) }),
+  },
+  {
+    pattern: /\*(?=[^\s*])([^*]*?[^\s*])\*/,
+    build: (match, parse) => ({ type: 'em', children: parse(match[1]) }),
+  },
+  // Underscores inside words (snake_case) are left alone
+  {
+    pattern: /(^|[^\w])_(?=[^\s_])([^_]*?[^\s_])_(?!\w)/,
+    offsetGroup: 1,
+    build: (match, parse) => ({ type: 'em', children: parse(match[2]) }),
+  },
+];
+
+const pushText = (nodes: InlineNode[], text: string) => {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "@Name" for each mentioned user; longer names first so "@Ann Lee" beats "@Ann"
+const mentionRule = (mentions: MentionTarget[]): InlineRule | null => {
+  const targets = mentions.filter(mention => mention.name).sort((a, b) => b.name.length - a.name.length);
+  if (targets.length === 0) return null;
+
+  const names = targets.map(mention => escapeRegExp(mention.name)).join('|');
+  return {
+    pattern: new RegExp(`(^|[^\\w@])@(${names})(?![\\w])`, 'i'),
+    offsetGroup: 1,
+    build: (match) => {
+      const target = targets.find(mention => mention.name.toLowerCase() === match[2].toLowerCase());
+      return target ? { type: 'mention', userId: target.userId, text: `@${match[2]}` } : null;
+    },
+  };
+};
+
+const rulesFor = (options: MarkdownOptions) => {
+  const mention = options.mentions ? mentionRule(options.mentions) : null;
+  // Mentions go after code spans and links, which are taken literally
+  return mention ? [...INLINE_RULES.slice(0, 4), mention, ...INLINE_RULES.slice(4)] : INLINE_RULES;
+};
+
+const parseInlineWith = (text: string, rules: InlineRule[]): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  const parse = (inner: string) => parseInlineWith(inner, rules);
+  let rest = text;
+
+  while (rest) {
+    let best: { rule: InlineRule; match: RegExpExecArray; start: number } | null = null;
+    for (const rule of rules) {
+      const match = rule.pattern.exec(rest);
+      if (!match) continue;
+      const start = match.index + (rule.offsetGroup ? match[rule.offsetGroup].length : 0);
+      if (!best || start < best.start) best = { rule, match, start };
+    }
+    if (!best) break;
+
+    const end = best.match.index + best.match[0].length;
+    const node = best.rule.build(best.match, parse);
+    pushText(nodes, rest.slice(0, best.start));
+    if (node) {
+      nodes.push(node);
+    } else {
+      pushText(nodes, rest.slice(best.start, end));
+    }
+    rest = rest.slice(end);
+  }
+
+  pushText(nodes, rest);
+  return nodes;
+};
+
+export const parseInline = (text: string, options: MarkdownOptions = {}): InlineNode[] =>
+  parseInlineWith(text, rulesFor(options));
+
+const FENCE_OPEN = /^\s*```\s*([\w+#.-]*)\s*$/;
+const FENCE_CLOSE = /^\s*```\s*$/;
+const QUOTE_LINE = /^\s*> ?(.*)$/;
+const BULLET_LINE = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_LINE = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+
+const isBlockStart = (line: string) =>
+  FENCE_OPEN.test(line) || QUOTE_LINE.test(line) || BULLET_LINE.test(line) || ORDERED_LINE.test(line);
+
+export const parseMarkdown = (source: string, options: MarkdownOptions = {}): BlockNode[] => {
+  const rules = rulesFor(options);
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_OPEN.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      // An unclosed fence runs to the end of the message
+      while (i < lines.length && !FENCE_CLOSE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence[1].toLowerCase(), text: code.join('\n') });
+      continue;
+    }
+
+    if (QUOTE_LINE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_LINE.test(lines[i])) {
+        quoted.push(QUOTE_LINE.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n'), options) });
+      continue;
+    }
+
+    const ordered = ORDERED_LINE.exec(line);
+    if (ordered || BULLET_LINE.test(line)) {
+      const pattern = ordered ? ORDERED_LINE : BULLET_LINE;
+      const items: InlineNode[][] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        const item = pattern.exec(lines[i])!;
+        items.push(parseInlineWith(ordered ? item[2] : item[1], rules));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered: !!ordered, start: ordered ? Number(ordered[1]) : 1, items });
+      continue;
+    }
+
+    // Single newlines inside a paragraph are kept as line breaks
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInlineWith(paragraph.join('\n'), rules) });
+  }
+
+  return blocks;
+};
+
+const inlineText = (nodes: InlineNode[]): string => nodes
+  .map(node => ('children' in node ? inlineText(node.children) : node.text))
+  .join('');
+
+const blockText = (block: BlockNode): string => {
+  switch (block.type) {
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'code':
+      return block.text;
+    case 'quote':
+      return block.children.map(blockText).join('\n');
+    case 'list':
+      return block.items.map(inlineText).join('\n');
+  }
+};
+
+// The text a reader sees, without any markup; used for previews and quotes
+export const stripMarkdown = (source: string): string =>
+  parseMarkdown(source).map(blockText).join('\n');
@@ -0,0 +1,66 @@
+// Persistent queue of outgoing messages, kept in IndexedDB so sends survive
+// reloads and offline periods. Items are removed once the server has them.
+
+export interface OutboxItem {
+  id: string;
+  chat_id: string;
+  sender_id: string;
+  content: string;
+  created_at: string;
+  reply_to_id?: string | null;
+  thread_root_id?: string | null;
+  mentions?: string[];
+  // Files are structured-cloneable, so IndexedDB stores them as-is
+  attachment?: File;
+  // queued: waiting to be (re)sent automatically; failed: rejected, needs a manual retry
+  state: 'queued' | 'failed';
+}
+
+const DB_NAME = 'chat-canvas-outbox';
+const DB_VERSION = 1;
+const STORE = 'messages';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('sender_id', 'sender_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const isOutboxAvailable = () => typeof indexedDB !== 'undefined';
+
+export const putOutboxItem = async (item: OutboxItem): Promise<void> => {
+  await run('readwrite', store => store.put(item));
+};
+
+export const deleteOutboxItem = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+// Everything the user still has to send, oldest first
+export const listOutboxItems = async (senderId: string): Promise<OutboxItem[]> => {
+  const items = await run<OutboxItem[]>('readonly', store => store.index('sender_id').getAll(senderId));
+  return items.sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
@@ -0,0 +1,141 @@
+import { Chat, User } from '@/types/chat';
+import type { MessageSearchQuery } from './backend';
+import { getChatDisplayName } from './chat-utils';
+
+// Search snippets mark matched words with these control characters (never
+// HTML), so they can be highlighted without interpreting message text
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export type SearchAttachmentFilter = 'image' | 'file';
+
+// A search box query split into free text and operators, before names are resolved
+export interface ParsedSearch {
+  text: string;
+  from: string[];
+  in: string[];
+  has: SearchAttachmentFilter[];
+  before?: string;
+  after?: string;
+  errors: string[];
+}
+
+const OPERATOR_PATTERN = /(\w+):(?:"([^"]*)"|(\S+))|"[^"]*"|\S+/g;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Operators: from:<name|me>, in:<chat>, has:image, has:file, before:<YYYY-MM-DD>,
+// after:<YYYY-MM-DD>. Quote values with spaces: from:"Alice Johnson".
+// Anything else is full-text (quoted phrases, "or", and -exclusions included).
+export const parseSearchQuery = (input: string): ParsedSearch => {
+  const parsed: ParsedSearch = { text: '', from: [], in: [], has: [], errors: [] };
+  const text: string[] = [];
+
+  for (const match of input.matchAll(OPERATOR_PATTERN)) {
+    const [token, key, quoted, bare] = match;
+    const value = (quoted ?? bare ?? '').trim();
+    switch (key?.toLowerCase()) {
+      case 'from':
+        if (value) parsed.from.push(value);
+        break;
+      case 'in':
+        if (value) parsed.in.push(value);
+        break;
+      case 'has':
+        if (value === 'image' || value === 'file') {
+          parsed.has.push(value);
+        } else {
+          parsed.errors.push(`Unknown filter has:${value} (use has:image or has:file)`);
+        }
+        break;
+      case 'before':
+      case 'after':
+        if (DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime())) {
+          parsed[key.toLowerCase() as 'before' | 'after'] = value;
+        } else {
+          parsed.errors.push(`Dates look like ${key}:2024-01-31`);
+        }
+        break;
+      default:
+        text.push(token);
+    }
+  }
+
+  parsed.text = text.join(' ');
+  return parsed;
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Turns names into ids. Unresolved names are reported as errors so an empty
+// result is not mistaken for "no matches".
+export const resolveSearchQuery = (
+  parsed: ParsedSearch,
+  users: User[],
+  chats: Chat[],
+  currentUserId?: string
+): { query: MessageSearchQuery; errors: string[] } => {
+  const errors = [...parsed.errors];
+
+  const senderIds = parsed.from.flatMap(name => {
+    if (name.toLowerCase() === 'me' && currentUserId) return [currentUserId];
+    const needle = normalize(name);
+    const matches = users.filter(u =>
+      normalize(u.display_name || '').startsWith(needle) ||
+      normalize(u.email.split('@')[0]).startsWith(needle)
+    );
+    if (matches.length === 0) errors.push(`No one is called "${name}"`);
+    return matches.map(u => u.id);
+  });
+
+  const chatIds = parsed.in.flatMap(name => {
+    const needle = normalize(name);
+    const matches = chats.filter(chat => normalize(getChatDisplayName(chat, users, currentUserId)).includes(needle));
+    if (matches.length === 0) errors.push(`No chat is called "${name}"`);
+    return matches.map(chat => chat.id);
+  });
+
+  return {
+    query: {
+      text: parsed.text,
+      senderIds: parsed.from.length > 0 ? senderIds : undefined,
+      chatIds: parsed.in.length > 0 ? chatIds : undefined,
+      has: parsed.has.length > 0 ? parsed.has : undefined,
+      // Both bounds are exclusive whole days in local time
+      before: parsed.before ? new Date(`${parsed.before}T00:00:00`).toISOString() : undefined,
+      after: parsed.after ? new Date(new Date(`${parsed.after}T00:00:00`).getTime() + 86_400_000).toISOString() : undefined,
+    },
+    errors,
+  };
+};
+
+export const isEmptySearch = (query: MessageSearchQuery) =>
+  !query.text?.trim() && !query.senderIds && !query.chatIds && !query.has && !query.before && !query.after;
+
+// Splits a snippet into plain and highlighted runs
+export const splitHighlights = (snippet: string): { text: string; highlighted: boolean }[] => {
+  const runs: { text: string; highlighted: boolean }[] = [];
+  const pattern = new RegExp(`${HIGHLIGHT_START}([^${HIGHLIGHT_END}]*)${HIGHLIGHT_END}`, 'g');
+  let last = 0;
+  for (const match of snippet.matchAll(pattern)) {
+    if (match.index > last) runs.push({ text: snippet.slice(last, match.index), highlighted: false });
+    runs.push({ text: match[1], highlighted: true });
+    last = match.index + match[0].length;
+  }
+  if (last < snippet.length) runs.push({ text: snippet.slice(last), highlighted: false });
+  return runs;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches the query anywhere in the text, ignoring case, like find in chat
+// itself; null when there is nothing to highlight
+export const createHighlightPattern = (query: string): RegExp | null => {
+  const text = query.trim();
+  if (!text) return null;
+  return new RegExp(escapeRegExp(text), 'giu');
+};
+
+// Splits text into plain and highlighted runs using a createHighlightPattern pattern
+export const splitMatches = (text: string, pattern: RegExp): { text: string; highlighted: boolean }[] =>
+  splitHighlights(text.replace(pattern, match => `${HIGHLIGHT_START}${match}${HIGHLIGHT_END}`));
@@ -0,0 +1,39 @@
+import { Link, Navigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { ChatTypesSettings } from "@/components/settings/ChatTypesSettings";
+import { useAuth } from "@/context/AuthContext";
+import { ArrowLeft, RefreshCw } from "lucide-react";
+
+const Settings = () => {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-chat-bg">
+        <RefreshCw className="h-5 w-5 animate-spin text-whatsapp-teal" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-chat-bg">
+      <header className="flex items-center gap-3 border-b border-chat-border bg-white p-3">
+        <Button variant="ghost" size="icon" className="rounded-full" asChild>
+          <Link to="/" aria-label="Back to chats">
+            <ArrowLeft className="h-5 w-5 text-gray-500" />
+          </Link>
+        </Button>
+        <h1 className="text-lg font-medium">Settings</h1>
+      </header>
+      <main className="mx-auto max-w-2xl space-y-4 p-4">
+        <ChatTypesSettings />
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
@@ -10,16 +10,31 @@ export interface User {
   status?: 'online' | 'offline';
 }
 
+// A user as listed in the workspace directory, without contact details
+export type DirectoryUser = Pick<User, 'id' | 'display_name' | 'avatar_url'>;
+
 export interface Chat {
   id: string;
   name?: string;
   created_at: string;
   updated_at: string;
   is_group: boolean;
+  last_message_id?: string;
+  last_message_at?: string;
+  member_count?: number;
   last_message?: Message;
   unread_count?: number;
-  type?: 'demo' | 'internal' | 'signup' | 'content';
+  // Unread messages that mention the current user
+  unread_mention_count?: number;
+  last_read_at?: string;
+  marked_unread?: boolean;
+  member_ids?: string[];
+  // Entry of the chat type registry (ChatType.id)
+  type_id?: string | null;
+  // Names of catalog labels (ChatLabel.name)
   labels?: string[];
+  // The member handling this chat, if any
+  assigned_to?: string | null;
 }
 
 export interface ChatMember {
@@ -27,6 +42,8 @@ export interface ChatMember {
   user_id: string;
   joined_at: string;
   role?: 'admin' | 'member';
+  last_read_at?: string;
+  marked_unread?: boolean;
 }
 
 export interface Message {
@@ -35,7 +52,102 @@ export interface Message {
   sender_id: string;
   content: string;
   created_at: string;
-  read_at?: string;
+  // Storage path (<chat_id>/<file>), resolved to a signed URL by useAttachmentUrl;
+  // a local blob: URL while the message is still in the outbox, and the old
+  // public URL on messages sent before attachments were private
   attachment_url?: string;
   attachment_type?: 'image' | 'video' | 'document';
+  // The earlier message this one replies to (quoted above the content)
+  reply_to_id?: string | null;
+  // Set on thread replies, which stay out of the main timeline
+  thread_root_id?: string | null;
+  // Maintained server-side on thread roots
+  thread_reply_count?: number;
+  thread_last_reply_at?: string | null;
+  // Set when the content was changed; previous versions are MessageEdit rows
+  edited_at?: string | null;
+  // Deleted for everyone: the message stays in the timeline without content
+  deleted_at?: string | null;
+  // Ids of the users @mentioned in the content (members of the chat only)
+  mentions?: string[];
+  // Client-only delivery state of an outgoing message; absent once the server has it.
+  // queued: waiting in the offline outbox, pending: being sent, failed: rejected
+  status?: 'queued' | 'pending' | 'failed';
+}
+
+// A previous version of an edited message
+export interface MessageEdit {
+  id: string;
+  message_id: string;
+  chat_id: string;
+  content: string | null;
+  // When this version was written
+  created_at: string;
+}
+
+export interface MessageReaction {
+  message_id: string;
+  user_id: string;
+  chat_id: string;
+  emoji: string;
+  created_at?: string;
+}
+
+export interface MessageReceipt {
+  message_id: string;
+  user_id: string;
+  chat_id: string;
+  delivered_at?: string;
+  read_at?: string;
+}
+
+// An entry of the workspace label catalog; chats carry labels by name
+export interface ChatLabel {
+  id: string;
+  name: string;
+  color: LabelColor;
+  created_by?: string | null;
+  created_at: string;
 }
+
+// An entry of the workspace chat type registry, listed by position
+export interface ChatType {
+  id: string;
+  name: string;
+  color: LabelColor;
+  // Key of CHAT_TYPE_ICONS (src/lib/chat-types.ts)
+  icon: string;
+  position: number;
+  created_at: string;
+}
+
+export type LabelColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'purple' | 'pink';
+
+// One condition of a chat list filter; dates are YYYY-MM-DD, both ends inclusive
+export type ChatFilterCondition =
+  | { field: 'type'; typeIds: string[] }
+  | { field: 'labels'; match: 'any' | 'all' | 'none'; labels: string[] }
+  | { field: 'unread'; state: 'unread' | 'read' | 'mentions' }
+  | { field: 'kind'; kind: 'group' | 'direct' }
+  | { field: 'participants'; match: 'any' | 'all'; userIds: string[] }
+  | { field: 'date'; date: 'last_activity' | 'created'; after?: string; before?: string }
+  | { field: 'assignee'; assignee: 'me' | 'unassigned' | 'assigned' | 'user'; userId?: string };
+
+// Conditions and nested groups combined with AND ("all") or OR ("any")
+export interface ChatFilter {
+  match: 'all' | 'any';
+  rules: (ChatFilterCondition | ChatFilter)[];
+}
+
+// A filter the user saved; shown as a quick tab above the chat list
+export interface SavedFilter {
+  id: string;
+  user_id: string;
+  name: string;
+  definition: ChatFilter;
+  position: number;
+  created_at: string;
+}
+
+// Aggregate state of a sent message across all of its recipients
+export type ReceiptStatus = 'sent' | 'delivered' | 'read';
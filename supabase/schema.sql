@@ -1,9 +1,16 @@
 
 -- Drop existing tables if they exist (for clean setup)
-DROP TABLE IF EXISTS messages;
-DROP TABLE IF EXISTS chat_members;
-DROP TABLE IF EXISTS chats;
-DROP TABLE IF EXISTS users;
+DROP TABLE IF EXISTS saved_filters CASCADE;
+DROP TABLE IF EXISTS labels CASCADE;
+DROP TABLE IF EXISTS message_reactions CASCADE;
+DROP TABLE IF EXISTS hidden_messages CASCADE;
+DROP TABLE IF EXISTS message_edits CASCADE;
+DROP TABLE IF EXISTS message_receipts CASCADE;
+DROP TABLE IF EXISTS messages CASCADE;
+DROP TABLE IF EXISTS chat_members CASCADE;
+DROP TABLE IF EXISTS chats CASCADE;
+DROP TABLE IF EXISTS chat_types CASCADE;
+DROP TABLE IF EXISTS users CASCADE;
 
 -- Create users table
 CREATE TABLE users (
@@ -13,10 +20,31 @@ CREATE TABLE users (
   avatar_url TEXT,
   phone_number TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Online state lives in the realtime presence channel only; last_seen is written
+  -- by the client when the user's last active session leaves. status is unused.
   last_seen TIMESTAMP WITH TIME ZONE,
   status TEXT DEFAULT 'offline'
 );
 
+-- Workspace registry of chat categories, managed from the settings screen; color is
+-- a palette key (see src/lib/labels.ts) and icon a key of CHAT_TYPE_ICONS (see
+-- src/lib/chat-types.ts)
+CREATE TABLE chat_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (char_length(btrim(name)) BETWEEN 1 AND 32),
+  color TEXT NOT NULL DEFAULT 'gray'
+    CHECK (color IN ('gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'purple', 'pink')),
+  icon TEXT NOT NULL DEFAULT 'tag',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO chat_types (name, color, icon, position) VALUES
+  ('demo', 'orange', 'presentation', 0),
+  ('internal', 'green', 'building', 1),
+  ('signup', 'blue', 'user-plus', 2),
+  ('content', 'purple', 'file-text', 3);
+
 -- Create chats table
 CREATE TABLE chats (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -24,8 +52,16 @@ CREATE TABLE chats (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   is_group BOOLEAN DEFAULT FALSE,
-  type TEXT, -- 'demo', 'internal', 'signup', 'content', etc.
-  labels TEXT[] DEFAULT '{}'::TEXT[]
+  -- Deleting a type leaves its chats untyped
+  type_id UUID REFERENCES chat_types(id) ON DELETE SET NULL,
+  -- Names from the labels catalog; kept in step by the labels_sync_chats trigger
+  labels TEXT[] DEFAULT '{}'::TEXT[],
+  -- The member handling this chat, if any (checked by chats_check_assignee)
+  assigned_to UUID REFERENCES users(id) ON DELETE SET NULL,
+  -- Summary columns, maintained by triggers (see below)
+  last_message_id UUID,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  member_count INTEGER NOT NULL DEFAULT 0
 );
 
 -- Create chat_members table (for managing chat participants)
@@ -34,7 +70,11 @@ CREATE TABLE chat_members (
   chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  role TEXT DEFAULT 'member',
+  -- Admins of a group manage its members and name (see the chat_members policies)
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  -- Read state of this member; messages after last_read_at count as unread
+  last_read_at TIMESTAMP WITH TIME ZONE,
+  marked_unread BOOLEAN NOT NULL DEFAULT FALSE,
   UNIQUE(chat_id, user_id)
 );
 
@@ -45,16 +85,160 @@ CREATE TABLE messages (
   sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   content TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  read_at TIMESTAMP WITH TIME ZONE,
+  -- Path of the attachment in the private attachments bucket, <chat_id>/<file>;
+  -- clients read it through short-lived signed URLs
   attachment_url TEXT,
-  attachment_type TEXT
+  attachment_type TEXT,
+  -- The message this one quotes; must be in the same chat (checked on insert)
+  reply_to_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  -- Thread replies point at their root and stay out of the main timeline.
+  -- Roots carry the reply count, maintained by the messages_thread_summary trigger.
+  thread_root_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  thread_reply_count INTEGER NOT NULL DEFAULT 0,
+  thread_last_reply_at TIMESTAMP WITH TIME ZONE,
+  -- Set by the messages_guard_update trigger; a deleted message keeps its row
+  -- (shown as "This message was deleted") but loses its content
+  edited_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  -- Users @mentioned in the content; limited to chat members on insert
+  mentions UUID[] NOT NULL DEFAULT '{}'
+);
+
+-- Previous versions of edited messages, oldest first; written by trigger only
+CREATE TABLE message_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  content TEXT,
+  -- When this version was written (the message's creation or a previous edit)
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Messages a user deleted for themselves only
+CREATE TABLE hidden_messages (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  hidden_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+-- Create message_receipts table (delivery and read state per recipient)
+CREATE TABLE message_receipts (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Denormalized so realtime can filter receipts by chat
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (message_id, user_id)
+);
+
+-- Create message_reactions table (one row per user and emoji on a message)
+CREATE TABLE message_reactions (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Denormalized so realtime can filter reactions by chat
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+-- Workspace-wide catalog of chat labels; color is a palette key (see src/lib/labels.ts)
+CREATE TABLE labels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (char_length(btrim(name)) BETWEEN 1 AND 32),
+  color TEXT NOT NULL DEFAULT 'gray'
+    CHECK (color IN ('gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'purple', 'pink')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Chat list filters a user saved; definition is a ChatFilter (see src/types/chat.ts)
+CREATE TABLE saved_filters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+  definition JSONB NOT NULL CHECK (jsonb_typeof(definition) = 'object'),
+  -- Order of the quick tabs
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, name)
 );
 
+ALTER TABLE chats
+  ADD CONSTRAINT chats_last_message_id_fkey
+  FOREIGN KEY (last_message_id) REFERENCES messages(id) ON DELETE SET NULL;
+
 -- Create indexes for better performance
 CREATE INDEX idx_messages_chat_id ON messages(chat_id);
 CREATE INDEX idx_chat_members_chat_id ON chat_members(chat_id);
 CREATE INDEX idx_chat_members_user_id ON chat_members(user_id);
 CREATE INDEX idx_messages_created_at ON messages(created_at);
+-- Keyset pagination walks a chat's timeline by (created_at, id)
+CREATE INDEX idx_messages_chat_timeline ON messages(chat_id, created_at DESC, id DESC);
+CREATE INDEX idx_message_receipts_user_pending ON message_receipts(user_id, chat_id) WHERE read_at IS NULL;
+CREATE INDEX idx_messages_thread_timeline ON messages(thread_root_id, created_at DESC, id DESC) WHERE thread_root_id IS NOT NULL;
+CREATE INDEX idx_messages_reply_to_id ON messages(reply_to_id) WHERE reply_to_id IS NOT NULL;
+CREATE INDEX idx_message_reactions_chat_id ON message_reactions(chat_id);
+-- Full-text search (search_messages must use the same expression to hit it)
+CREATE INDEX idx_messages_content_search ON messages USING GIN (to_tsvector('english', COALESCE(content, '')));
+CREATE INDEX idx_message_edits_message_id ON message_edits(message_id, created_at);
+CREATE INDEX idx_saved_filters_user_id ON saved_filters(user_id, position);
+-- Renaming or deleting a label rewrites the chats that carry it
+CREATE INDEX idx_chats_labels ON chats USING GIN (labels);
+CREATE INDEX idx_chats_type_id ON chats(type_id);
+
+-- Whether the current user is a member of the chat. Policies go through this
+-- (and is_chat_admin below) rather than querying chat_members inline: the
+-- functions run with the owner's rights, so chat_members policies can use them
+-- without recursing into themselves, and the chat id is always an explicit
+-- argument instead of a column name that an inner query could capture.
+CREATE OR REPLACE FUNCTION is_chat_member(p_chat_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM chat_members cm
+    WHERE cm.chat_id = p_chat_id
+      AND cm.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the current user is an admin of the group chat
+CREATE OR REPLACE FUNCTION is_chat_admin(p_chat_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM chat_members cm
+    JOIN chats c ON c.id = cm.chat_id
+    WHERE cm.chat_id = p_chat_id
+      AND cm.user_id = auth.uid()
+      AND cm.role = 'admin'
+      AND c.is_group
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the current user shares a chat with the given user
+CREATE OR REPLACE FUNCTION shares_chat_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM chat_members mine
+    JOIN chat_members theirs ON theirs.chat_id = mine.chat_id
+    WHERE mine.user_id = auth.uid()
+      AND theirs.user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The chat an attachment belongs to: the first folder of its storage path, or
+-- NULL when that is not a chat id
+CREATE OR REPLACE FUNCTION attachment_chat_id(p_name TEXT)
+RETURNS UUID AS $$
+  SELECT CASE
+    WHEN split_part(p_name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN split_part(p_name, '/', 1)::UUID
+  END;
+$$ LANGUAGE sql IMMUTABLE;
 
 -- Create Row Level Security policies
 -- Enable RLS
@@ -62,96 +246,217 @@ ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE chats ENABLE ROW LEVEL SECURITY;
 ALTER TABLE chat_members ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hidden_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_filters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE labels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_types ENABLE ROW LEVEL SECURITY;
 
--- Users table policies
-CREATE POLICY "Users can view their own data and data of users in the same chat"
+-- Operations without a policy below are denied outright.
+
+-- Users table policies. Full profiles, contact details included, are visible
+-- to yourself and the people you share a chat with; everyone else is found
+-- through get_user_directory. Rows are removed by the cascade from auth.users,
+-- never by clients.
+CREATE POLICY "Users can view their own profile and those of their chat partners"
   ON users FOR SELECT
-  USING (
-    auth.uid() = id OR
-    EXISTS (
-      SELECT 1 FROM chat_members cm1
-      JOIN chat_members cm2 ON cm1.chat_id = cm2.chat_id
-      WHERE cm1.user_id = auth.uid() AND cm2.user_id = id
-    )
-  );
+  USING (id = auth.uid() OR shares_chat_with(id));
 
-CREATE POLICY "Users can update their own data"
+CREATE POLICY "Users can create their own profile"
+  ON users FOR INSERT
+  WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Users can update their own profile"
   ON users FOR UPDATE
-  USING (auth.uid() = id);
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
 
--- Chats table policies
-CREATE POLICY "Users can view chats they're a member of"
+-- Chats table policies. Chats are created by create_direct_chat and
+-- create_group_chat only, together with their first members, and are never
+-- deleted by clients.
+CREATE POLICY "Members can view their chats"
   ON chats FOR SELECT
-  USING (
-    EXISTS (
-      SELECT 1 FROM chat_members
-      WHERE chat_id = id AND user_id = auth.uid()
-    )
-  );
+  USING (is_chat_member(id));
 
-CREATE POLICY "Users can create chats"
-  ON chats FOR INSERT
-  WITH CHECK (true);
-
-CREATE POLICY "Users can update chats they're a member of"
+-- Renames are further limited to group admins by the chats_guard_rename trigger
+CREATE POLICY "Members can update their chats"
   ON chats FOR UPDATE
-  USING (
-    EXISTS (
-      SELECT 1 FROM chat_members
-      WHERE chat_id = id AND user_id = auth.uid()
-    )
-  );
+  USING (is_chat_member(id))
+  WITH CHECK (is_chat_member(id));
 
 -- Chat members table policies
-CREATE POLICY "Users can view chat members for chats they're in"
+CREATE POLICY "Members can view the members of their chats"
   ON chat_members FOR SELECT
+  USING (is_chat_member(chat_id));
+
+-- Chats and their first members are created by the create_*_chat functions;
+-- after that only group admins add, promote, demote and remove members
+CREATE POLICY "Group admins can add members"
+  ON chat_members FOR INSERT
+  WITH CHECK (is_chat_admin(chat_id));
+
+CREATE POLICY "Group admins can change member roles"
+  ON chat_members FOR UPDATE
+  USING (is_chat_admin(chat_id))
+  WITH CHECK (is_chat_admin(chat_id));
+
+CREATE POLICY "Group admins can remove members and members can leave"
+  ON chat_members FOR DELETE
+  USING (user_id = auth.uid() OR is_chat_admin(chat_id));
+
+-- Messages table policies. Messages are soft-deleted through deleted_at, so
+-- there is no DELETE policy.
+CREATE POLICY "Members can view messages in their chats"
+  ON messages FOR SELECT
   USING (
-    EXISTS (
-      SELECT 1 FROM chat_members
-      WHERE chat_id = chat_id AND user_id = auth.uid()
+    is_chat_member(chat_id) AND
+    NOT EXISTS (
+      SELECT 1 FROM hidden_messages h
+      WHERE h.message_id = messages.id AND h.user_id = auth.uid()
     )
   );
 
-CREATE POLICY "Users can add members to chats they're in"
-  ON chat_members FOR INSERT
+CREATE POLICY "Members can send messages in their chats"
+  ON messages FOR INSERT
+  WITH CHECK (sender_id = auth.uid() AND is_chat_member(chat_id));
+
+-- Senders edit and delete (for everyone) by updating their own messages while
+-- they are still in the chat; the messages_guard_update trigger enforces the
+-- time windows and what may change
+CREATE POLICY "Senders can update their own messages"
+  ON messages FOR UPDATE
+  USING (sender_id = auth.uid() AND deleted_at IS NULL AND is_chat_member(chat_id))
+  WITH CHECK (sender_id = auth.uid() AND is_chat_member(chat_id));
+
+CREATE POLICY "Members can view the edit history of messages in their chats"
+  ON message_edits FOR SELECT
+  USING (is_chat_member(chat_id));
+
+CREATE POLICY "Users can view the messages they hid"
+  ON hidden_messages FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Members can hide messages in their chats for themselves"
+  ON hidden_messages FOR INSERT
   WITH CHECK (
+    user_id = auth.uid() AND
     EXISTS (
-      SELECT 1 FROM chat_members
-      WHERE chat_id = chat_id AND user_id = auth.uid()
+      SELECT 1 FROM messages m
+      WHERE m.id = hidden_messages.message_id AND is_chat_member(m.chat_id)
     )
   );
 
--- Messages table policies
-CREATE POLICY "Users can view messages in chats they're a member of"
-  ON messages FOR SELECT
-  USING (
-    EXISTS (
-      SELECT 1 FROM chat_members
-      WHERE chat_id = chat_id AND user_id = auth.uid()
-    )
-  );
+-- Message reactions policies
+CREATE POLICY "Members can view reactions in their chats"
+  ON message_reactions FOR SELECT
+  USING (is_chat_member(chat_id));
 
-CREATE POLICY "Users can insert messages in chats they're a member of"
-  ON messages FOR INSERT
+CREATE POLICY "Members can react to messages in their chats"
+  ON message_reactions FOR INSERT
   WITH CHECK (
-    sender_id = auth.uid() AND
+    user_id = auth.uid() AND
+    is_chat_member(chat_id) AND
     EXISTS (
-      SELECT 1 FROM chat_members
-      WHERE chat_id = chat_id AND user_id = auth.uid()
+      SELECT 1 FROM messages m
+      WHERE m.id = message_reactions.message_id AND m.chat_id = message_reactions.chat_id
     )
   );
 
--- Create storage bucket for attachments
-INSERT INTO storage.buckets (id, name, public) VALUES ('attachments', 'attachments', true);
+CREATE POLICY "Users can remove their own reactions"
+  ON message_reactions FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Labels policies (the catalog is shared by every signed-in user)
+CREATE POLICY "Signed-in users can view labels"
+  ON labels FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Signed-in users can create labels"
+  ON labels FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL AND created_by = auth.uid());
+
+CREATE POLICY "Signed-in users can update labels"
+  ON labels FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Signed-in users can delete labels"
+  ON labels FOR DELETE
+  USING (auth.uid() IS NOT NULL);
+
+-- Chat types policies (the registry is shared by every signed-in user)
+CREATE POLICY "Signed-in users can view chat types"
+  ON chat_types FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Signed-in users can create chat types"
+  ON chat_types FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Signed-in users can update chat types"
+  ON chat_types FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Signed-in users can delete chat types"
+  ON chat_types FOR DELETE
+  USING (auth.uid() IS NOT NULL);
+
+-- Saved filters policies (private to their owner)
+CREATE POLICY "Users can view their own saved filters"
+  ON saved_filters FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can save their own filters"
+  ON saved_filters FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own saved filters"
+  ON saved_filters FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
 
--- Set up storage policies for attachments
-CREATE POLICY "Anyone can view attachments"
+CREATE POLICY "Users can delete their own saved filters"
+  ON saved_filters FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Message receipts policies (rows are written by triggers and RPCs only)
+CREATE POLICY "Members can view receipts in their chats"
+  ON message_receipts FOR SELECT
+  USING (is_chat_member(chat_id));
+
+-- Create storage bucket for attachments. It is private: files are only served
+-- through signed URLs, which the storage API issues to those who can read them.
+INSERT INTO storage.buckets (id, name, public) VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Set up storage policies for attachments. Files live under their chat's id
+-- (<chat_id>/<file>) and only members of that chat can upload or read them.
+-- storage.objects outlives the public tables, so replace earlier policies.
+DROP POLICY IF EXISTS "Anyone can view attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Members can view attachments of their chats" ON storage.objects;
+DROP POLICY IF EXISTS "Members can upload attachments to their chats" ON storage.objects;
+
+-- Files sent while the bucket was public sit under their sender's id, and their
+-- messages keep the old public URL (new messages can only store paths, see
+-- messages_check_references); they stay readable to whoever can see such a message
+CREATE POLICY "Members can view attachments of their chats"
   ON storage.objects FOR SELECT
-  USING (bucket_id = 'attachments');
+  USING (
+    bucket_id = 'attachments' AND (
+      is_chat_member(attachment_chat_id(name)) OR
+      EXISTS (
+        SELECT 1 FROM messages m
+        WHERE m.attachment_url ~ '^https?://'
+          AND substring(m.attachment_url FROM '/storage/v1/object/public/attachments/([^?#]+)') = storage.objects.name
+      )
+    )
+  );
 
-CREATE POLICY "Authenticated users can upload attachments"
+CREATE POLICY "Members can upload attachments to their chats"
   ON storage.objects FOR INSERT
-  WITH CHECK (bucket_id = 'attachments' AND auth.role() = 'authenticated');
+  WITH CHECK (bucket_id = 'attachments' AND is_chat_member(attachment_chat_id(name)));
 
 -- Function to update 'updated_at' timestamp
 CREATE OR REPLACE FUNCTION update_updated_at()
@@ -167,3 +472,696 @@ CREATE TRIGGER update_chats_updated_at
   BEFORE UPDATE ON chats
   FOR EACH ROW
   EXECUTE PROCEDURE update_updated_at();
+
+-- Keep chat summary columns current as messages arrive. Runs as the table
+-- owner so the sender does not need UPDATE rights on chats. Thread replies
+-- never become the chat's last message.
+CREATE OR REPLACE FUNCTION messages_update_chat_summary()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.thread_root_id IS NOT NULL THEN
+      RETURN NEW;
+    END IF;
+
+    UPDATE chats
+    SET last_message_id = NEW.id,
+        last_message_at = NEW.created_at
+    WHERE id = NEW.chat_id
+      AND (last_message_at IS NULL OR NEW.created_at >= last_message_at);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Edits and deletions of the last message change the sidebar preview;
+    -- touching the chat row notifies its subscribers
+    UPDATE chats
+    SET last_message_at = last_message_at
+    WHERE id = NEW.chat_id AND last_message_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  -- DELETE: fall back to the newest remaining message
+  UPDATE chats c
+  SET (last_message_id, last_message_at) = (
+    SELECT m.id, m.created_at
+    FROM messages m
+    WHERE m.chat_id = OLD.chat_id AND m.thread_root_id IS NULL
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  )
+  WHERE c.id = OLD.chat_id AND c.last_message_id IS NOT DISTINCT FROM OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER messages_chat_summary
+  AFTER INSERT OR UPDATE OR DELETE ON messages
+  FOR EACH ROW
+  EXECUTE PROCEDURE messages_update_chat_summary();
+
+-- Messages can be edited for 15 minutes and deleted for everyone for an hour
+-- after sending (keep in sync with MESSAGE_*_WINDOW_MS in src/lib/chat-utils.ts).
+-- Only the content changes on edit; the previous version goes to message_edits.
+CREATE OR REPLACE FUNCTION messages_guard_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Thread counters are written by the messages_thread_summary trigger
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.chat_id IS DISTINCT FROM OLD.chat_id
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.reply_to_id IS DISTINCT FROM OLD.reply_to_id
+    OR NEW.thread_root_id IS DISTINCT FROM OLD.thread_root_id
+    OR NEW.thread_reply_count IS DISTINCT FROM OLD.thread_reply_count
+    OR NEW.thread_last_reply_at IS DISTINCT FROM OLD.thread_last_reply_at
+    OR NEW.mentions IS DISTINCT FROM OLD.mentions
+    OR (NEW.deleted_at IS NULL AND (
+      NEW.attachment_url IS DISTINCT FROM OLD.attachment_url
+      OR NEW.attachment_type IS DISTINCT FROM OLD.attachment_type
+    )) THEN
+    RAISE EXCEPTION 'Only the content of a message can be changed';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This message was deleted';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    IF OLD.created_at < NOW() - INTERVAL '1 hour' THEN
+      RAISE EXCEPTION 'Messages can only be deleted for everyone within an hour of sending';
+    END IF;
+    NEW.deleted_at := NOW();
+    NEW.content := '';
+    NEW.attachment_url := NULL;
+    NEW.attachment_type := NULL;
+    NEW.edited_at := OLD.edited_at;
+    -- Earlier versions would otherwise keep the deleted text readable
+    DELETE FROM message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF OLD.created_at < NOW() - INTERVAL '15 minutes' THEN
+      RAISE EXCEPTION 'Messages can only be edited within 15 minutes of sending';
+    END IF;
+    INSERT INTO message_edits (message_id, chat_id, content, created_at)
+    VALUES (OLD.id, OLD.chat_id, OLD.content, COALESCE(OLD.edited_at, OLD.created_at));
+    NEW.edited_at := NOW();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER messages_guard_update
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE PROCEDURE messages_guard_update();
+
+-- Replies can only quote messages of their own chat, threads hang off
+-- top-level messages of their own chat (no nested threads) and attachments are
+-- stored under their own chat. Mentions are narrowed to members of the chat
+-- and the message is stamped with the server time.
+CREATE OR REPLACE FUNCTION messages_check_references()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages WHERE id = NEW.reply_to_id AND chat_id = NEW.chat_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must quote a message from the same chat';
+  END IF;
+
+  IF NEW.thread_root_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages
+    WHERE id = NEW.thread_root_id AND chat_id = NEW.chat_id AND thread_root_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Threads can only start from a message in the main timeline of the same chat';
+  END IF;
+
+  IF NEW.attachment_url IS NOT NULL AND attachment_chat_id(NEW.attachment_url) IS DISTINCT FROM NEW.chat_id THEN
+    RAISE EXCEPTION 'Attachments must be stored under their own chat';
+  END IF;
+
+  -- Mentions of non-members (or repeats) are dropped rather than rejected
+  NEW.mentions := ARRAY(
+    SELECT DISTINCT cm.user_id
+    FROM chat_members cm
+    WHERE cm.chat_id = NEW.chat_id AND cm.user_id = ANY(NEW.mentions)
+  );
+
+  -- Edit and delete windows, ordering and pagination all run on created_at,
+  -- so it is the server's time, whatever the client sent
+  NEW.created_at := NOW();
+  NEW.thread_reply_count := 0;
+  NEW.thread_last_reply_at := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER messages_check_references
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE PROCEDURE messages_check_references();
+
+-- Reply count and latest reply time on thread roots
+CREATE OR REPLACE FUNCTION messages_update_thread_summary()
+RETURNS TRIGGER AS $$
+DECLARE
+  root_id UUID := COALESCE(NEW.thread_root_id, OLD.thread_root_id);
+BEGIN
+  IF root_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE messages r
+  SET (thread_reply_count, thread_last_reply_at) = (
+    SELECT COUNT(*)::INTEGER, MAX(m.created_at)
+    FROM messages m
+    WHERE m.thread_root_id = root_id
+  )
+  WHERE r.id = root_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER messages_thread_summary
+  AFTER INSERT OR DELETE ON messages
+  FOR EACH ROW
+  EXECUTE PROCEDURE messages_update_thread_summary();
+
+CREATE OR REPLACE FUNCTION chat_members_update_member_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE chats
+  SET member_count = (
+    SELECT COUNT(*) FROM chat_members WHERE chat_id = COALESCE(NEW.chat_id, OLD.chat_id)
+  )
+  WHERE id = COALESCE(NEW.chat_id, OLD.chat_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER chat_members_member_count
+  AFTER INSERT OR DELETE ON chat_members
+  FOR EACH ROW
+  EXECUTE PROCEDURE chat_members_update_member_count();
+
+-- Chats can only be assigned to one of their members
+CREATE OR REPLACE FUNCTION chats_check_assignee()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assigned_to IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM chat_members WHERE chat_id = NEW.id AND user_id = NEW.assigned_to
+  ) THEN
+    RAISE EXCEPTION 'Chats can only be assigned to their members';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER chats_check_assignee
+  BEFORE INSERT OR UPDATE OF assigned_to ON chats
+  FOR EACH ROW
+  EXECUTE PROCEDURE chats_check_assignee();
+
+-- A member who leaves is no longer assigned to the chat
+CREATE OR REPLACE FUNCTION chat_members_release_assignment()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE chats SET assigned_to = NULL
+  WHERE id = OLD.chat_id AND assigned_to = OLD.user_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER chat_members_release_assignment
+  AFTER DELETE ON chat_members
+  FOR EACH ROW
+  EXECUTE PROCEDURE chat_members_release_assignment();
+
+-- Only a member's role can change, and a group always keeps an admin. The read
+-- state (last_read_at, marked_unread) is the member's own to change.
+CREATE OR REPLACE FUNCTION chat_members_guard_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_unchanged chat_members;
+BEGIN
+  IF NEW.chat_id <> OLD.chat_id OR NEW.user_id <> OLD.user_id OR NEW.joined_at IS DISTINCT FROM OLD.joined_at THEN
+    RAISE EXCEPTION 'Only the role of a member can be changed';
+  END IF;
+  IF NEW.user_id IS DISTINCT FROM auth.uid() THEN
+    v_unchanged := NEW;
+    v_unchanged.role := OLD.role;
+    IF (v_unchanged.*) IS DISTINCT FROM (OLD.*) THEN
+      RAISE EXCEPTION 'Only the role of a member can be changed';
+    END IF;
+  END IF;
+  IF OLD.role = 'admin' AND NEW.role <> 'admin' AND NOT EXISTS (
+    SELECT 1 FROM chat_members
+    WHERE chat_id = OLD.chat_id AND role = 'admin' AND user_id <> OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'A group needs at least one admin';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER chat_members_guard_update
+  BEFORE UPDATE ON chat_members
+  FOR EACH ROW
+  EXECUTE PROCEDURE chat_members_guard_update();
+
+-- When the last admin leaves a group, its longest-standing member takes over
+CREATE OR REPLACE FUNCTION chat_members_hand_over_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'admin' AND NOT EXISTS (
+    SELECT 1 FROM chat_members WHERE chat_id = OLD.chat_id AND role = 'admin'
+  ) THEN
+    UPDATE chat_members SET role = 'admin'
+    WHERE id = (
+      SELECT id FROM chat_members
+      WHERE chat_id = OLD.chat_id
+      ORDER BY joined_at, id
+      LIMIT 1
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER chat_members_hand_over_admin
+  AFTER DELETE ON chat_members
+  FOR EACH ROW
+  EXECUTE PROCEDURE chat_members_hand_over_admin();
+
+-- Members may only change a chat's labels, type, assignee and (see below) name;
+-- the rest is set on creation or maintained by triggers
+CREATE OR REPLACE FUNCTION chats_guard_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Summary columns are written by the triggers on messages and chat_members
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.is_group IS DISTINCT FROM OLD.is_group
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.last_message_id IS DISTINCT FROM OLD.last_message_id
+    OR NEW.last_message_at IS DISTINCT FROM OLD.last_message_at
+    OR NEW.member_count IS DISTINCT FROM OLD.member_count THEN
+    RAISE EXCEPTION 'Only the labels, type, assignee and name of a chat can be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER chats_guard_update
+  BEFORE UPDATE ON chats
+  FOR EACH ROW
+  EXECUTE PROCEDURE chats_guard_update();
+
+-- Only group admins rename a chat
+CREATE OR REPLACE FUNCTION chats_guard_rename()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT is_chat_admin(NEW.id) THEN
+    RAISE EXCEPTION 'Only group admins can rename the group';
+  END IF;
+  IF char_length(btrim(COALESCE(NEW.name, ''))) = 0 THEN
+    RAISE EXCEPTION 'A group needs a name';
+  END IF;
+  NEW.name := btrim(NEW.name);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER chats_guard_rename
+  BEFORE UPDATE OF name ON chats
+  FOR EACH ROW
+  WHEN (NEW.name IS DISTINCT FROM OLD.name)
+  EXECUTE PROCEDURE chats_guard_rename();
+
+-- Renaming a label renames it on every chat; deleting it takes it off them.
+-- The chat updates reach clients through the chats realtime stream.
+CREATE OR REPLACE FUNCTION labels_sync_chats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE chats SET labels = array_remove(labels, OLD.name)
+    WHERE labels @> ARRAY[OLD.name];
+    RETURN NULL;
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE chats SET labels = array_replace(labels, OLD.name, NEW.name)
+    WHERE labels @> ARRAY[OLD.name];
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER labels_sync_chats
+  AFTER UPDATE OF name OR DELETE ON labels
+  FOR EACH ROW
+  EXECUTE PROCEDURE labels_sync_chats();
+
+-- Adds and removes labels on several chats at once. Only chats the caller is a
+-- member of change, and only catalog labels can be added.
+CREATE OR REPLACE FUNCTION update_chat_labels(
+  p_chat_ids UUID[],
+  p_add TEXT[] DEFAULT '{}',
+  p_remove TEXT[] DEFAULT '{}'
+)
+RETURNS VOID AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_add) AS added(name)
+    WHERE NOT EXISTS (SELECT 1 FROM labels l WHERE l.name = added.name)
+  ) THEN
+    RAISE EXCEPTION 'Unknown label';
+  END IF;
+
+  UPDATE chats c
+  SET labels = ARRAY(
+    SELECT DISTINCT name
+    FROM unnest(COALESCE(c.labels, '{}') || p_add) AS name
+    WHERE name <> ALL(p_remove)
+    ORDER BY name
+  )
+  WHERE c.id = ANY(p_chat_ids)
+    AND is_chat_member(c.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The workspace directory that new chats and groups are started from: every
+-- user, but only what is needed to pick them (no email or phone number)
+CREATE OR REPLACE FUNCTION get_user_directory()
+RETURNS TABLE (id UUID, display_name TEXT, avatar_url TEXT) AS $$
+  SELECT u.id, u.display_name, u.avatar_url
+  FROM users u
+  WHERE auth.uid() IS NOT NULL
+  ORDER BY u.display_name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Opens the caller's direct chat with another user, creating it together with
+-- both memberships if there is none yet. Calls for the same pair are serialized
+-- by a transaction lock, so concurrent calls cannot create it twice.
+CREATE OR REPLACE FUNCTION create_direct_chat(p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_chat_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot start a chat with yourself';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'Unknown user';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(LEAST(auth.uid(), p_user_id)::TEXT || GREATEST(auth.uid(), p_user_id)::TEXT, 0)
+  );
+
+  SELECT c.id INTO v_chat_id
+  FROM chats c
+  JOIN chat_members me ON me.chat_id = c.id AND me.user_id = auth.uid()
+  JOIN chat_members them ON them.chat_id = c.id AND them.user_id = p_user_id
+  WHERE NOT c.is_group
+  ORDER BY c.created_at
+  LIMIT 1;
+
+  IF v_chat_id IS NULL THEN
+    INSERT INTO chats (is_group) VALUES (FALSE) RETURNING id INTO v_chat_id;
+    INSERT INTO chat_members (chat_id, user_id, role)
+    VALUES (v_chat_id, auth.uid(), 'member'), (v_chat_id, p_user_id, 'member');
+  END IF;
+
+  RETURN v_chat_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Creates a named group with the caller as its admin and the given users as
+-- members, in one transaction. Labels must be in the catalog.
+CREATE OR REPLACE FUNCTION create_group_chat(
+  p_name TEXT,
+  p_member_ids UUID[],
+  p_type_id UUID DEFAULT NULL,
+  p_labels TEXT[] DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_chat_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  IF char_length(btrim(COALESCE(p_name, ''))) = 0 THEN
+    RAISE EXCEPTION 'A group needs a name';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM unnest(p_member_ids) AS m(id) WHERE m.id <> auth.uid()) THEN
+    RAISE EXCEPTION 'A group needs at least one other member';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_member_ids) AS m(id)
+    WHERE NOT EXISTS (SELECT 1 FROM users u WHERE u.id = m.id)
+  ) THEN
+    RAISE EXCEPTION 'Unknown user';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_labels, '{}')) AS added(name)
+    WHERE NOT EXISTS (SELECT 1 FROM labels l WHERE l.name = added.name)
+  ) THEN
+    RAISE EXCEPTION 'Unknown label';
+  END IF;
+
+  INSERT INTO chats (name, is_group, type_id, labels)
+  VALUES (
+    btrim(p_name),
+    TRUE,
+    p_type_id,
+    ARRAY(SELECT DISTINCT name FROM unnest(COALESCE(p_labels, '{}')) AS name ORDER BY name)
+  )
+  RETURNING id INTO v_chat_id;
+
+  INSERT INTO chat_members (chat_id, user_id, role)
+  SELECT v_chat_id, auth.uid(), 'admin'
+  UNION ALL
+  SELECT DISTINCT v_chat_id, m.id, 'member'
+  FROM unnest(p_member_ids) AS m(id)
+  WHERE m.id <> auth.uid();
+
+  RETURN v_chat_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- One round trip for the sidebar: every chat the caller belongs to, with its
+-- last message, member count and unread (and unread mention) counts. Pass a chat id to fetch one row.
+CREATE OR REPLACE FUNCTION get_chat_summaries(p_chat_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  is_group BOOLEAN,
+  type_id UUID,
+  labels TEXT[],
+  assigned_to UUID,
+  last_message_id UUID,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  member_count INTEGER,
+  last_message JSONB,
+  unread_count INTEGER,
+  unread_mention_count INTEGER,
+  last_read_at TIMESTAMP WITH TIME ZONE,
+  marked_unread BOOLEAN,
+  member_ids UUID[]
+) AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.created_at,
+    c.updated_at,
+    c.is_group,
+    c.type_id,
+    c.labels,
+    c.assigned_to,
+    c.last_message_id,
+    c.last_message_at,
+    c.member_count,
+    to_jsonb(lm.*) AS last_message,
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM messages m
+      WHERE m.chat_id = c.id
+        AND m.sender_id <> auth.uid()
+        AND m.deleted_at IS NULL
+        AND m.thread_root_id IS NULL
+        AND m.created_at > COALESCE(me.last_read_at, '-infinity'::TIMESTAMPTZ)
+        AND NOT EXISTS (
+          SELECT 1 FROM hidden_messages h
+          WHERE h.message_id = m.id AND h.user_id = auth.uid()
+        )
+    ) AS unread_count,
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM messages m
+      WHERE m.chat_id = c.id
+        AND auth.uid() = ANY(m.mentions)
+        AND m.sender_id <> auth.uid()
+        AND m.deleted_at IS NULL
+        AND m.thread_root_id IS NULL
+        AND m.created_at > COALESCE(me.last_read_at, '-infinity'::TIMESTAMPTZ)
+        AND NOT EXISTS (
+          SELECT 1 FROM hidden_messages h
+          WHERE h.message_id = m.id AND h.user_id = auth.uid()
+        )
+    ) AS unread_mention_count,
+    me.last_read_at,
+    me.marked_unread,
+    ARRAY(SELECT cm.user_id FROM chat_members cm WHERE cm.chat_id = c.id) AS member_ids
+  FROM chats c
+  JOIN chat_members me ON me.chat_id = c.id AND me.user_id = auth.uid()
+  LEFT JOIN messages lm ON lm.id = c.last_message_id
+  WHERE p_chat_id IS NULL OR c.id = p_chat_id
+  ORDER BY COALESCE(c.last_message_at, c.updated_at) DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Full-text search over the messages the caller can read. Runs with the caller's
+-- rights, so RLS limits it to their chats and leaves out what they hid. The text
+-- uses web search syntax ("quoted phrases", or, -exclusions); matches in the
+-- snippet are wrapped in chr(2)/chr(3). Without text, newest messages come first.
+CREATE OR REPLACE FUNCTION search_messages(
+  p_query TEXT DEFAULT NULL,
+  p_sender_ids UUID[] DEFAULT NULL,
+  p_chat_ids UUID[] DEFAULT NULL,
+  p_has TEXT[] DEFAULT NULL,
+  p_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  message JSONB,
+  snippet TEXT
+) AS $$
+  WITH search AS (
+    SELECT CASE
+      WHEN COALESCE(btrim(p_query), '') = '' THEN NULL
+      ELSE websearch_to_tsquery('english', p_query)
+    END AS query
+  )
+  SELECT
+    to_jsonb(m.*) AS message,
+    CASE
+      WHEN s.query IS NULL THEN left(m.content, 160)
+      ELSE ts_headline(
+        'english', m.content, s.query,
+        'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+    END AS snippet
+  FROM messages m
+  CROSS JOIN search s
+  WHERE m.deleted_at IS NULL
+    AND (s.query IS NULL OR to_tsvector('english', COALESCE(m.content, '')) @@ s.query)
+    AND (p_sender_ids IS NULL OR m.sender_id = ANY(p_sender_ids))
+    AND (p_chat_ids IS NULL OR m.chat_id = ANY(p_chat_ids))
+    AND (NOT 'image' = ANY(COALESCE(p_has, '{}')) OR m.attachment_type = 'image')
+    AND (NOT 'file' = ANY(COALESCE(p_has, '{}')) OR (
+      m.attachment_url IS NOT NULL AND m.attachment_type IS DISTINCT FROM 'image'
+    ))
+    AND (p_before IS NULL OR m.created_at < p_before)
+    AND (p_after IS NULL OR m.created_at > p_after)
+  ORDER BY
+    CASE WHEN s.query IS NULL THEN 0 ELSE ts_rank(to_tsvector('english', COALESCE(m.content, '')), s.query) END DESC,
+    m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$ LANGUAGE sql STABLE;
+
+-- Find in one chat: messages of its main timeline containing the text anywhere
+-- (case-insensitive), the newest p_limit of them oldest first, each row carrying
+-- the total number of matches. Runs as the caller, so RLS limits it to chats
+-- they are in and leaves out messages they hid.
+CREATE OR REPLACE FUNCTION find_chat_messages(
+  p_chat_id UUID,
+  p_text TEXT,
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  id UUID,
+  total BIGINT
+) AS $$
+  WITH matches AS (
+    SELECT m.id, m.created_at, COUNT(*) OVER () AS total
+    FROM messages m
+    WHERE m.chat_id = p_chat_id
+      AND m.thread_root_id IS NULL
+      AND m.deleted_at IS NULL
+      AND m.content ILIKE '%' || replace(replace(replace(p_text, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 1000)
+  )
+  SELECT matches.id, matches.total
+  FROM matches
+  ORDER BY matches.created_at, matches.id;
+$$ LANGUAGE sql STABLE;
+
+-- Read state changes go through these functions so members can only touch
+-- their own read columns (not their role).
+CREATE OR REPLACE FUNCTION mark_chat_read(p_chat_id UUID)
+RETURNS VOID AS $$
+  UPDATE chat_members
+  SET last_read_at = NOW(),
+      marked_unread = FALSE
+  WHERE chat_id = p_chat_id AND user_id = auth.uid();
+
+  UPDATE message_receipts
+  SET read_at = NOW(),
+      delivered_at = COALESCE(delivered_at, NOW())
+  WHERE chat_id = p_chat_id AND user_id = auth.uid() AND read_at IS NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION mark_chat_unread(p_chat_id UUID)
+RETURNS VOID AS $$
+  UPDATE chat_members
+  SET marked_unread = TRUE
+  WHERE chat_id = p_chat_id AND user_id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Every recipient gets a pending receipt when a message is sent
+CREATE OR REPLACE FUNCTION messages_create_receipts()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO message_receipts (message_id, user_id, chat_id)
+  SELECT NEW.id, cm.user_id, NEW.chat_id
+  FROM chat_members cm
+  WHERE cm.chat_id = NEW.chat_id AND cm.user_id <> NEW.sender_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER messages_receipts
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE PROCEDURE messages_create_receipts();
+
+-- Called by a client once messages have reached it; all chats when p_chat_id is null
+CREATE OR REPLACE FUNCTION mark_messages_delivered(p_chat_id UUID DEFAULT NULL)
+RETURNS VOID AS $$
+  UPDATE message_receipts
+  SET delivered_at = NOW()
+  WHERE user_id = auth.uid()
+    AND delivered_at IS NULL
+    AND (p_chat_id IS NULL OR chat_id = p_chat_id);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Stream row changes for the tables the app subscribes to
+ALTER PUBLICATION supabase_realtime ADD TABLE users, chats, chat_members, messages, message_receipts, message_reactions, labels, chat_types;
@@ -0,0 +1,74 @@
+-- Server-side rules for messages: timestamps, unread counts and deletion.
+-- Runs with `supabase test db` against a local stack that has supabase/schema.sql
+-- applied; everything happens in one transaction that is rolled back.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- Fixtures, written as the table owner: alice and bob share a direct chat
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com');
+
+INSERT INTO users (id, email, display_name) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com', 'Alice'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com', 'Bob');
+
+INSERT INTO chats (id, is_group) VALUES ('00000000-0000-0000-0000-0000000000d1', FALSE);
+
+INSERT INTO chat_members (chat_id, user_id) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-00000000000a'),
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-00000000000b');
+
+-- Two unread messages from bob, one of which alice deleted for herself
+INSERT INTO messages (id, chat_id, sender_id, content) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-00000000000b', 'Hi Alice'),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-00000000000b', 'Oops');
+
+INSERT INTO hidden_messages (message_id, user_id) VALUES
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-00000000000a');
+
+SELECT set_config('role', 'authenticated', true),
+       set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT unread_count FROM get_chat_summaries('00000000-0000-0000-0000-0000000000d1')),
+  1, 'get_chat_summaries: hidden messages do not count as unread'
+);
+
+-- A message dated a year ahead would stay editable and deletable for a year
+INSERT INTO messages (id, chat_id, sender_id, content, created_at) VALUES (
+  '00000000-0000-0000-0000-0000000000e1',
+  '00000000-0000-0000-0000-0000000000d1',
+  '00000000-0000-0000-0000-00000000000a',
+  'From the future',
+  NOW() + INTERVAL '1 year'
+);
+
+SELECT is(
+  (SELECT created_at FROM messages WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  NOW(), 'messages: the client''s created_at is replaced by the server time'
+);
+SELECT is(
+  (SELECT last_message_at FROM chats WHERE id = '00000000-0000-0000-0000-0000000000d1'),
+  NOW(), 'messages: the chat is ordered by the server time of its last message'
+);
+
+-- Deleting for everyone must not leave the text readable in the edit history
+UPDATE messages SET content = 'From the present' WHERE id = '00000000-0000-0000-0000-0000000000e1';
+
+SELECT is(
+  (SELECT count(*)::int FROM message_edits WHERE message_id = '00000000-0000-0000-0000-0000000000e1'),
+  1, 'messages: an edit keeps the previous version'
+);
+
+UPDATE messages SET deleted_at = NOW() WHERE id = '00000000-0000-0000-0000-0000000000e1';
+
+SELECT is(
+  (SELECT count(*)::int FROM message_edits WHERE message_id = '00000000-0000-0000-0000-0000000000e1'),
+  0, 'messages: deleting for everyone removes the edit history'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
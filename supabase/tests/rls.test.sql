@@ -0,0 +1,243 @@
+-- Row level security on users, chats, chat_members, messages and attachments.
+-- Runs with `supabase test db` against a local stack that has supabase/schema.sql
+-- applied; everything happens in one transaction that is rolled back.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(50);
+
+-- Fixtures, written as the table owner (RLS does not apply):
+--   alice and bob share a direct chat and a group that alice administers;
+--   carol is in neither
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com'),
+  ('00000000-0000-0000-0000-00000000000c', 'carol@example.com');
+
+INSERT INTO users (id, email, display_name) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com', 'Alice'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com', 'Bob'),
+  ('00000000-0000-0000-0000-00000000000c', 'carol@example.com', 'Carol');
+
+INSERT INTO chats (id, name, is_group) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', NULL, FALSE),
+  ('00000000-0000-0000-0000-0000000000a1', 'Launch', TRUE);
+
+INSERT INTO chat_members (chat_id, user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-00000000000a', 'member'),
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-00000000000b', 'member'),
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000a', 'admin'),
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000b', 'member');
+
+INSERT INTO messages (id, chat_id, sender_id, content) VALUES
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-00000000000a', 'Hi Bob'),
+  ('00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000b', 'Hi all');
+
+-- Switches to a signed-in user for the rest of the transaction, the way
+-- PostgREST does for a request
+CREATE FUNCTION pg_temp.authenticate_as(p_user_id UUID)
+RETURNS VOID AS $$
+  SELECT set_config('role', 'authenticated', true),
+         set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+$$ LANGUAGE sql;
+
+-- Carol: an outsider to both chats
+SELECT pg_temp.authenticate_as('00000000-0000-0000-0000-00000000000c');
+
+SELECT is((SELECT count(*)::int FROM users), 1, 'users: outsiders only see their own profile');
+SELECT is((SELECT count(*)::int FROM get_user_directory()), 3, 'users: every signed-in user sees the directory');
+SELECT is((SELECT count(*)::int FROM chats), 0, 'chats: outsiders see no chats');
+SELECT is((SELECT count(*)::int FROM chat_members), 0, 'chat_members: outsiders see no memberships');
+SELECT is((SELECT count(*)::int FROM messages), 0, 'messages: outsiders see no messages');
+
+SELECT throws_ok(
+  $$ INSERT INTO users (id, email, display_name) VALUES (gen_random_uuid(), 'mallory@example.com', 'Mallory') $$,
+  '42501', NULL, 'users: nobody can create a profile for someone else'
+);
+SELECT lives_ok(
+  $$ INSERT INTO users (id, email, display_name)
+     VALUES ('00000000-0000-0000-0000-00000000000c', 'carol@example.com', 'Carol')
+     ON CONFLICT (id) DO NOTHING $$,
+  'users: a user can upsert their own profile'
+);
+SELECT lives_ok(
+  $$ UPDATE users SET display_name = 'Hacked' WHERE id = '00000000-0000-0000-0000-00000000000a' $$,
+  'users: updating someone else''s profile is filtered out'
+);
+SELECT lives_ok(
+  $$ UPDATE users SET status = 'online' WHERE id = '00000000-0000-0000-0000-00000000000c' $$,
+  'users: a user can update their own profile'
+);
+SELECT throws_ok(
+  $$ UPDATE users SET id = '00000000-0000-0000-0000-00000000000f' WHERE id = '00000000-0000-0000-0000-00000000000c' $$,
+  '42501', NULL, 'users: a profile cannot be moved to another id'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO chats (name, is_group) VALUES ('Side channel', TRUE) $$,
+  '42501', NULL, 'chats: chats are only created through the create_*_chat functions'
+);
+SELECT lives_ok(
+  $$ UPDATE chats SET type_id = (SELECT id FROM chat_types WHERE name = 'demo')
+     WHERE id = '00000000-0000-0000-0000-0000000000d1' $$,
+  'chats: updating a chat of others is filtered out'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO chat_members (chat_id, user_id) VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000c') $$,
+  '42501', NULL, 'chat_members: outsiders cannot add themselves to a group'
+);
+SELECT throws_ok(
+  $$ INSERT INTO chat_members (chat_id, user_id) VALUES ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-00000000000c') $$,
+  '42501', NULL, 'chat_members: outsiders cannot add themselves to a direct chat'
+);
+SELECT lives_ok(
+  $$ DELETE FROM chat_members WHERE chat_id = '00000000-0000-0000-0000-0000000000a1' $$,
+  'chat_members: removing members of others'' chats is filtered out'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO messages (chat_id, sender_id, content) VALUES ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-00000000000c', 'Hello?') $$,
+  '42501', NULL, 'messages: outsiders cannot post in a chat'
+);
+SELECT lives_ok(
+  $$ DELETE FROM messages $$,
+  'messages: deleting messages is filtered out'
+);
+
+-- Bob: a plain member of both chats
+SELECT pg_temp.authenticate_as('00000000-0000-0000-0000-00000000000b');
+
+SELECT is((SELECT count(*)::int FROM chats), 2, 'chats: members see their chats');
+SELECT is((SELECT count(*)::int FROM chat_members), 4, 'chat_members: members see everyone in their chats');
+SELECT is((SELECT count(*)::int FROM messages), 2, 'messages: members see the messages of their chats');
+SELECT is(
+  (SELECT display_name FROM users WHERE id = '00000000-0000-0000-0000-00000000000a'),
+  'Alice', 'users: the filtered update left the profile alone'
+);
+SELECT ok(
+  (SELECT type_id IS NULL FROM chats WHERE id = '00000000-0000-0000-0000-0000000000d1'),
+  'chats: the filtered update left the chat alone'
+);
+
+SELECT lives_ok(
+  $$ UPDATE chats SET assigned_to = '00000000-0000-0000-0000-00000000000b' WHERE id = '00000000-0000-0000-0000-0000000000d1' $$,
+  'chats: members can update their chats'
+);
+SELECT throws_ok(
+  $$ UPDATE chats SET is_group = TRUE WHERE id = '00000000-0000-0000-0000-0000000000d1' $$,
+  'P0001', 'Only the labels, type, assignee and name of a chat can be changed', 'chats: a direct chat cannot be turned into a group'
+);
+SELECT throws_ok(
+  $$ UPDATE chats SET member_count = 99 WHERE id = '00000000-0000-0000-0000-0000000000d1' $$,
+  'P0001', 'Only the labels, type, assignee and name of a chat can be changed', 'chats: the member count cannot be faked'
+);
+SELECT throws_ok(
+  $$ UPDATE chats SET last_message_at = NOW() + INTERVAL '1 day' WHERE id = '00000000-0000-0000-0000-0000000000d1' $$,
+  'P0001', 'Only the labels, type, assignee and name of a chat can be changed', 'chats: the chat order cannot be faked'
+);
+SELECT throws_ok(
+  $$ UPDATE chats SET last_message_id = '00000000-0000-0000-0000-0000000000e2' WHERE id = '00000000-0000-0000-0000-0000000000d1' $$,
+  'P0001', 'Only the labels, type, assignee and name of a chat can be changed', 'chats: the last message cannot be swapped'
+);
+SELECT throws_ok(
+  $$ UPDATE chats SET created_at = NOW() - INTERVAL '1 year' WHERE id = '00000000-0000-0000-0000-0000000000d1' $$,
+  'P0001', 'Only the labels, type, assignee and name of a chat can be changed', 'chats: the creation time cannot be changed'
+);
+SELECT throws_ok(
+  $$ UPDATE chats SET name = 'Mine now' WHERE id = '00000000-0000-0000-0000-0000000000a1' $$,
+  'P0001', 'Only group admins can rename the group', 'chats: plain members cannot rename a group'
+);
+SELECT lives_ok(
+  $$ DELETE FROM chats $$,
+  'chats: deleting chats is filtered out'
+);
+SELECT is((SELECT count(*)::int FROM chats), 2, 'chats: no chat was deleted');
+
+SELECT lives_ok(
+  $$ INSERT INTO messages (chat_id, sender_id, content) VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000b', 'Status update') $$,
+  'messages: members can post in their chats'
+);
+SELECT throws_ok(
+  $$ INSERT INTO messages (chat_id, sender_id, content) VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000a', 'Signed, Alice') $$,
+  '42501', NULL, 'messages: members cannot post as someone else'
+);
+SELECT lives_ok(
+  $$ UPDATE messages SET content = 'Edited by Bob' WHERE id = '00000000-0000-0000-0000-0000000000e1' $$,
+  'messages: editing someone else''s message is filtered out'
+);
+SELECT is(
+  (SELECT content FROM messages WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  'Hi Bob', 'messages: the filtered edit left the message alone'
+);
+SELECT is((SELECT count(*)::int FROM messages), 3, 'messages: no message was deleted');
+
+SELECT throws_ok(
+  $$ INSERT INTO chat_members (chat_id, user_id) VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000c') $$,
+  '42501', NULL, 'chat_members: plain members cannot add members'
+);
+SELECT lives_ok(
+  $$ UPDATE chat_members SET role = 'admin'
+     WHERE chat_id = '00000000-0000-0000-0000-0000000000a1' AND user_id = '00000000-0000-0000-0000-00000000000b' $$,
+  'chat_members: plain members cannot promote themselves'
+);
+SELECT is(
+  (SELECT role FROM chat_members WHERE chat_id = '00000000-0000-0000-0000-0000000000a1' AND user_id = '00000000-0000-0000-0000-00000000000b'),
+  'member', 'chat_members: the filtered promotion left the role alone'
+);
+
+-- Alice: admin of the group
+SELECT pg_temp.authenticate_as('00000000-0000-0000-0000-00000000000a');
+
+SELECT lives_ok(
+  $$ INSERT INTO chat_members (chat_id, user_id) VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000c') $$,
+  'chat_members: admins can add members'
+);
+SELECT throws_ok(
+  $$ UPDATE chat_members SET last_read_at = NOW() - INTERVAL '1 year'
+     WHERE chat_id = '00000000-0000-0000-0000-0000000000a1' AND user_id = '00000000-0000-0000-0000-00000000000b' $$,
+  'P0001', 'Only the role of a member can be changed', 'chat_members: admins cannot rewrite a member''s read position'
+);
+SELECT throws_ok(
+  $$ UPDATE chat_members SET marked_unread = TRUE
+     WHERE chat_id = '00000000-0000-0000-0000-0000000000a1' AND user_id = '00000000-0000-0000-0000-00000000000b' $$,
+  'P0001', 'Only the role of a member can be changed', 'chat_members: admins cannot mark a chat unread for a member'
+);
+SELECT lives_ok(
+  $$ DELETE FROM users WHERE id = '00000000-0000-0000-0000-00000000000a' $$,
+  'users: deleting a profile is filtered out'
+);
+
+-- Carol again, now a member of the group
+SELECT pg_temp.authenticate_as('00000000-0000-0000-0000-00000000000c');
+
+SELECT is((SELECT count(*)::int FROM messages), 2, 'messages: new members see the group''s messages');
+SELECT is((SELECT count(*)::int FROM users), 3, 'users: new members see the group''s profiles and none was deleted');
+
+SELECT lives_ok(
+  $$ DELETE FROM chat_members WHERE chat_id = '00000000-0000-0000-0000-0000000000a1' AND user_id = '00000000-0000-0000-0000-00000000000c' $$,
+  'chat_members: members can leave a group'
+);
+SELECT is((SELECT count(*)::int FROM messages), 0, 'messages: members who left no longer see the group''s messages');
+
+-- Attachments: stored under their chat and scoped to its members
+SELECT pg_temp.authenticate_as('00000000-0000-0000-0000-00000000000b');
+
+SELECT lives_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('attachments', '00000000-0000-0000-0000-0000000000d1/photo.png') $$,
+  'attachments: members can upload to their chat'
+);
+
+SELECT pg_temp.authenticate_as('00000000-0000-0000-0000-00000000000c');
+
+SELECT is(
+  (SELECT count(*)::int FROM storage.objects WHERE bucket_id = 'attachments'),
+  0, 'attachments: outsiders cannot see a chat''s files'
+);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('attachments', '00000000-0000-0000-0000-0000000000d1/other.png') $$,
+  '42501', NULL, 'attachments: outsiders cannot upload to a chat'
+);
+
+SELECT * FROM finish();
+ROLLBACK;